@@ -15,9 +15,9 @@
  * Degradation order (least noticeable first):
  * 1. Reduce model FPS (30→15→10)
  * 2. Reduce model resolution (256×144 → 160×96)
- * 3. Disable light wrap
+ * 3. Disable light wrap and beauty touch-up
  * 4. Reduce feather quality
- * 5. Reduce blur passes
+ * 5. Reduce blur passes (bokeh → Gaussian)
  * 6. Last resort: disable entirely
  */
 
@@ -57,6 +57,10 @@ export interface QualityLevel {
   lightWrap: boolean;
   /** Background blur radius */
   blurRadius: number;
+  /** Bokeh lens blur allowed ('bokeh' mode falls back to Gaussian blur when false) */
+  bokeh: boolean;
+  /** Beauty / touch-up stage allowed (skipped when false, whatever the strength) */
+  beauty: boolean;
   /** Morphological erosion/dilation for edge cleanup */
   morphology: boolean;
   /** Temporal appear rate */
@@ -79,6 +83,8 @@ const QUALITY_TIERS: QualityLevel[] = [
     lightWrap: true,
     morphology: true,
     blurRadius: 12,
+    bokeh: true,
+    beauty: true,
     appearRate: 0.7,
     disappearRate: 0.35,
   },
@@ -93,6 +99,8 @@ const QUALITY_TIERS: QualityLevel[] = [
     lightWrap: true,
     morphology: true,
     blurRadius: 12,
+    bokeh: true,
+    beauty: true,
     appearRate: 0.75,
     disappearRate: 0.35,
   },
@@ -107,6 +115,8 @@ const QUALITY_TIERS: QualityLevel[] = [
     lightWrap: true,
     morphology: true,
     blurRadius: 10,
+    bokeh: true,
+    beauty: true,
     appearRate: 0.8,
     disappearRate: 0.4,
   },
@@ -121,6 +131,8 @@ const QUALITY_TIERS: QualityLevel[] = [
     lightWrap: false,
     morphology: false,
     blurRadius: 8,
+    bokeh: false,
+    beauty: false,
     appearRate: 0.85,
     disappearRate: 0.45,
   },
@@ -135,6 +147,8 @@ const QUALITY_TIERS: QualityLevel[] = [
     lightWrap: false,
     morphology: false,
     blurRadius: 6,
+    bokeh: false,
+    beauty: false,
     appearRate: 0.9,
     disappearRate: 0.5,
   },
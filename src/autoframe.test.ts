@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { AutoFramer, parseAspect, resolveOutputSize } from './autoframe';
+
+/** Mask with a filled rectangle (fractions of the mask) */
+function rectMask(w: number, h: number, x0: number, y0: number, x1: number, y1: number): Float32Array {
+  const mask = new Float32Array(w * h);
+  for (let y = Math.floor(y0 * h); y < Math.floor(y1 * h); y++) {
+    for (let x = Math.floor(x0 * w); x < Math.floor(x1 * w); x++) mask[y * w + x] = 1;
+  }
+  return mask;
+}
+
+describe('parseAspect', () => {
+  it('parses ratios and numbers', () => {
+    expect(parseAspect('9:16')).toBeCloseTo(9 / 16);
+    expect(parseAspect('1:1')).toBe(1);
+    expect(parseAspect('1.5')).toBe(1.5);
+    expect(parseAspect(0.8)).toBe(0.8);
+  });
+
+  it('returns 0 for unset or invalid values', () => {
+    expect(parseAspect(0)).toBe(0);
+    expect(parseAspect(-1)).toBe(0);
+    expect(parseAspect('')).toBe(0);
+    expect(parseAspect('wide')).toBe(0);
+    expect(parseAspect('16:0')).toBe(0);
+  });
+});
+
+describe('resolveOutputSize', () => {
+  it('uses the camera size without an output size or aspect', () => {
+    expect(resolveOutputSize(1280, 720, 0, 0, 0)).toEqual({ width: 1280, height: 720, aspectConflict: false });
+  });
+
+  it('fits the largest even-sized frame of the aspect inside the camera', () => {
+    expect(resolveOutputSize(1280, 720, 0, 0, 9 / 16)).toEqual({ width: 406, height: 720, aspectConflict: false });
+    expect(resolveOutputSize(1280, 720, 0, 0, 21 / 9)).toEqual({ width: 1280, height: 548, aspectConflict: false });
+  });
+
+  it('derives the missing dimension from the aspect', () => {
+    expect(resolveOutputSize(1280, 720, 1080, 0, 9 / 16)).toEqual({ width: 1080, height: 1920, aspectConflict: false });
+    expect(resolveOutputSize(1280, 720, 0, 360, 0)).toEqual({ width: 640, height: 360, aspectConflict: false });
+  });
+
+  it('keeps an explicit size that matches the aspect', () => {
+    expect(resolveOutputSize(1280, 720, 1080, 1920, 9 / 16)).toEqual({ width: 1080, height: 1920, aspectConflict: false });
+    expect(resolveOutputSize(1280, 720, 640, 640, 0)).toEqual({ width: 640, height: 640, aspectConflict: false });
+  });
+
+  it('derives the height from the width when an explicit size contradicts the aspect', () => {
+    expect(resolveOutputSize(1280, 720, 1280, 720, 9 / 16)).toEqual({ width: 1280, height: 2276, aspectConflict: true });
+  });
+});
+
+describe('AutoFramer aspect', () => {
+  it('uses the whole frame without an output aspect', () => {
+    const framer = new AutoFramer();
+    framer.setFrameSize(1280, 720);
+    expect(framer.getFullFrameCrop()).toEqual({ x: 0, y: 0, width: 1, height: 1, zoom: 1 });
+  });
+
+  it('centers the largest crop of a narrower aspect', () => {
+    const framer = new AutoFramer({ aspect: 9 / 16 });
+    framer.setFrameSize(1280, 720);
+    const crop = framer.getFullFrameCrop();
+    expect(crop.height).toBe(1);
+    expect((crop.width * 1280) / (crop.height * 720)).toBeCloseTo(9 / 16);
+    expect(crop.x).toBeCloseTo((1 - crop.width) / 2);
+  });
+
+  it('letterboxes vertically for a wider aspect', () => {
+    const framer = new AutoFramer({ aspect: 21 / 9 });
+    framer.setFrameSize(1280, 720);
+    const crop = framer.getFullFrameCrop();
+    expect(crop.width).toBe(1);
+    expect((crop.width * 1280) / (crop.height * 720)).toBeCloseTo(21 / 9);
+    expect(crop.y).toBeCloseTo((1 - crop.height) / 2);
+  });
+
+  it('shapes the framing crop to the aspect around the subject', () => {
+    const framer = new AutoFramer({ enabled: true, aspect: 1 });
+    framer.setFrameSize(1280, 720);
+    const crop = framer.updateFromMask(rectMask(64, 36, 0.6, 0.3, 0.75, 0.9), 64, 36);
+
+    expect((crop.width * 1280) / (crop.height * 720)).toBeCloseTo(1);
+    expect(crop.x).toBeGreaterThanOrEqual(0);
+    expect(crop.y).toBeGreaterThanOrEqual(0);
+    expect(crop.x + crop.width).toBeLessThanOrEqual(1 + 1e-9);
+    expect(crop.y + crop.height).toBeLessThanOrEqual(1 + 1e-9);
+    // Subject center stays inside the crop
+    expect(crop.x).toBeLessThan(0.675);
+    expect(crop.x + crop.width).toBeGreaterThan(0.675);
+  });
+});
@@ -17,6 +17,9 @@
  * - With virtual background: allow continuous gentle adjustments
  * - Without virtual background: center on join, then mostly static
  * - Always maintain headroom proportions
+ *
+ * With an output aspect (e.g. 9:16 for mobile layouts) the crop is shaped to it
+ * instead of the source aspect — vertical and square formats from a landscape camera.
  */
 
 export interface AutoFrameConfig {
@@ -38,6 +41,11 @@ export interface AutoFrameConfig {
   continuous?: boolean;
   /** Dead zone — don't adjust if subject moved less than this fraction (default: 0.03) */
   deadZone?: number;
+  /**
+   * Output aspect ratio (width / height) the crop is shaped to, 0 = source aspect (default: 0).
+   * Applies even when disabled: the uncropped framing becomes the largest centered crop of this aspect.
+   */
+  aspect?: number;
 }
 
 export interface CropRect {
@@ -65,6 +73,52 @@ interface BBox {
   area: number;
 }
 
+/** Parse an aspect ratio like '9:16' or 0.5625 into width / height; 0 when unset or invalid */
+export function parseAspect(aspect: string | number): number {
+  if (typeof aspect === 'number') return aspect > 0 ? aspect : 0;
+  const [w, h] = aspect.split(':').map(Number);
+  const ratio = h === undefined ? w : w / h;
+  return ratio > 0 && Number.isFinite(ratio) ? ratio : 0;
+}
+
+/**
+ * Output size for a camera frame: explicit outputWidth/outputHeight, else the
+ * largest frame of the output aspect inside the camera (even-sized for
+ * encoders). A single dimension derives the other from the aspect. When both
+ * are set but disagree with outputAspect, the width wins and the height is
+ * derived — the auto-framer crops to the aspect, so any other canvas shape
+ * would stretch the picture.
+ *
+ * @param aspect - Parsed outputAspect (width / height), 0 = camera aspect
+ * @returns The size, and whether an explicit height was overridden
+ */
+export function resolveOutputSize(
+  cameraWidth: number,
+  cameraHeight: number,
+  outputWidth: number,
+  outputHeight: number,
+  aspect: number,
+): { width: number; height: number; aspectConflict: boolean } {
+  const cameraAspect = cameraWidth / cameraHeight;
+  const target = aspect || cameraAspect;
+  let fitW = cameraWidth;
+  let fitH = cameraHeight;
+  if (aspect) {
+    fitW = aspect < cameraAspect ? 2 * Math.round(cameraHeight * aspect / 2) : cameraWidth;
+    fitH = aspect < cameraAspect ? cameraHeight : 2 * Math.round(cameraWidth / aspect / 2);
+  }
+
+  // Off by more than a pixel of rounding on the height
+  const aspectConflict = aspect > 0 && outputWidth > 0 && outputHeight > 0 &&
+    Math.abs(outputWidth / aspect - outputHeight) > 1;
+  const height = aspectConflict ? 0 : outputHeight;
+  return {
+    width: Math.max(1, Math.round(outputWidth || (height ? height * target : fitW))),
+    height: Math.max(1, Math.round(height || (outputWidth ? outputWidth / target : fitH))),
+    aspectConflict,
+  };
+}
+
 export class AutoFramer {
   private config: Required<AutoFrameConfig>;
 
@@ -94,7 +148,10 @@ export class AutoFramer {
       minZoom: config.minZoom ?? 1.10,
       continuous: config.continuous ?? true,
       deadZone: config.deadZone ?? 0.03,
+      aspect: config.aspect ?? 0,
     };
+    this.currentCrop = this.getFullFrameCrop();
+    this.targetCrop = this.getFullFrameCrop();
   }
 
   /** Set frame dimensions */
@@ -102,6 +159,10 @@ export class AutoFramer {
     this.frameWidth = width;
     this.frameHeight = height;
     this.frameAspect = width / height;
+    if (!this.hasInitialFrame) {
+      this.currentCrop = this.getFullFrameCrop();
+      this.targetCrop = this.getFullFrameCrop();
+    }
   }
 
   /**
@@ -121,7 +182,7 @@ export class AutoFramer {
     maskHeight: number,
   ): CropRect {
     if (!this.config.enabled) {
-      return { x: 0, y: 0, width: 1, height: 1, zoom: 1 };
+      return this.getFullFrameCrop();
     }
 
     // Derive bounding box from mask
@@ -156,7 +217,7 @@ export class AutoFramer {
     faceHeight: number, // face height as fraction of frame
   ): CropRect {
     if (!this.config.enabled) {
-      return { x: 0, y: 0, width: 1, height: 1, zoom: 1 };
+      return this.getFullFrameCrop();
     }
 
     // Convert face to approximate body bounding box
@@ -188,19 +249,33 @@ export class AutoFramer {
 
   /** Reset to default (full frame, no crop) */
   reset(): void {
-    this.currentCrop = { x: 0, y: 0, width: 1, height: 1, zoom: 1 };
-    this.targetCrop = { x: 0, y: 0, width: 1, height: 1, zoom: 1 };
+    this.currentCrop = this.getFullFrameCrop();
+    this.targetCrop = this.getFullFrameCrop();
     this.lastBBox = null;
     this.hasInitialFrame = false;
     this.frameCount = 0;
     this.lockedZoom = null;
   }
 
+  /** Whether framing follows the subject */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
   /** Get current crop without updating */
   getCurrentCrop(): CropRect {
     return { ...this.currentCrop };
   }
 
+  /**
+   * Uncropped framing: the whole frame, or with an output aspect the largest
+   * centered crop of that aspect.
+   */
+  getFullFrameCrop(): CropRect {
+    const { width, height } = this.baseCropSize();
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height, zoom: 1 };
+  }
+
   /** Update configuration */
   updateConfig(config: Partial<AutoFrameConfig>): void {
     Object.assign(this.config, config);
@@ -257,19 +332,30 @@ export class AutoFramer {
     return result;
   }
 
+  /** Crop size at zoom 1, as frame fractions: the full frame, or the largest fit of the output aspect */
+  private baseCropSize(): { width: number; height: number } {
+    const { aspect } = this.config;
+    if (aspect <= 0) return { width: 1, height: 1 };
+    return aspect < this.frameAspect
+      ? { width: aspect / this.frameAspect, height: 1 }
+      : { width: 1, height: this.frameAspect / aspect };
+  }
+
   private computeCropFromBBox(bbox: BBox): CropRect {
     const { maxZoom, minZoom, headroom } = this.config;
+    const base = this.baseCropSize();
 
     // Zoom: person should fill ~85% of the output (largest dimension).
     // Only zooms significantly when person is far from camera.
     // Close-up: minZoom applies for centering only. Far: zooms to frame properly.
+    // Fill is measured against the zoom-1 crop, so narrow aspects keep the same framing.
     const targetFill = 0.8;
-    const actualFill = Math.max(bbox.width, bbox.height);
+    const actualFill = Math.max(bbox.width / base.width, bbox.height / base.height);
     const rawZoom = actualFill > 0.01 ? targetFill / actualFill : 1.0;
     const zoom = Math.max(minZoom, Math.min(maxZoom, rawZoom));
 
-    const cropW = 1 / zoom;
-    const cropH = 1 / zoom;
+    const cropW = base.width / zoom;
+    const cropH = base.height / zoom;
 
     // Horizontal: geometric center of person (not mass-weighted — more stable)
     const personCenterX = (bbox.minX + bbox.maxX) / 2;
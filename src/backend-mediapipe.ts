@@ -0,0 +1,162 @@
+/**
+ * MediaPipe Segmentation Backend
+ *
+ * The default SegmentationBackend: MediaPipe's Image Segmenter running the
+ * selfie segmenter. Handles delegate fallback (GPU → CPU) and reduces the
+ * multiclass model's categories to a single person confidence.
+ */
+
+import {
+  ImageSegmenter,
+  FilesetResolver,
+  ImageSegmenterResult,
+} from '@mediapipe/tasks-vision';
+import type { SegmentationBackend, SegmentationInput, SegmentationClass, ClassMasks } from './backend';
+
+// selfie_multiclass_256x256 category order (0 is background)
+const MULTICLASS_CATEGORIES: SegmentationClass[] = ['hair', 'bodySkin', 'faceSkin', 'clothes', 'accessories'];
+
+export interface MediaPipeBackendConfig {
+  /** Model asset path (.tflite) */
+  modelAssetPath: string;
+  /** Model file contents, used instead of modelAssetPath when set */
+  modelAssetBuffer?: ArrayBuffer | Uint8Array | null;
+  /** Base URL of the MediaPipe WASM fileset */
+  wasmBasePath: string;
+  /** Requested delegate; GPU falls back to CPU when it fails to initialize */
+  delegate: 'GPU' | 'CPU';
+  /** Model input width */
+  inputWidth: number;
+  /** Model input height */
+  inputHeight: number;
+  /** Keep the multiclass model's per-class masks (see getClassMasks) */
+  multiclass?: boolean;
+}
+
+export class MediaPipeBackend implements SegmentationBackend {
+  readonly inputWidth: number;
+  readonly inputHeight: number;
+  // Safari returns empty masks when given HTMLCanvasElement — use ImageData instead.
+  // Workers have no HTMLCanvasElement and segmentForVideo rejects OffscreenCanvas.
+  readonly inputKind: 'canvas' | 'imageData' = typeof document === 'undefined' ||
+    (typeof navigator !== 'undefined' && /Safari/.test(navigator.userAgent) && !/Chrome/.test(navigator.userAgent))
+    ? 'imageData'
+    : 'canvas';
+  /** The delegate actually used after init (GPU may fall back to CPU) */
+  delegate: 'GPU' | 'CPU' = 'CPU';
+
+  private config: MediaPipeBackendConfig;
+  private segmenter: ImageSegmenter | null = null;
+  private mask: Float32Array | null = null; // Reused output buffer
+  private classMasks: ClassMasks | null = null; // Reused per-class buffers (multiclass)
+
+  constructor(config: MediaPipeBackendConfig) {
+    this.config = config;
+    this.inputWidth = config.inputWidth;
+    this.inputHeight = config.inputHeight;
+  }
+
+  async init(): Promise<void> {
+    if (this.segmenter) return;
+
+    const vision = await FilesetResolver.forVisionTasks(this.config.wasmBasePath);
+
+    const { modelAssetBuffer } = this.config;
+    const opts = {
+      baseOptions: {
+        ...(modelAssetBuffer
+          ? { modelAssetBuffer: modelAssetBuffer instanceof Uint8Array ? modelAssetBuffer : new Uint8Array(modelAssetBuffer) }
+          : { modelAssetPath: this.config.modelAssetPath }),
+        delegate: this.config.delegate,
+      },
+      runningMode: 'VIDEO' as const,
+      outputCategoryMask: false,
+      outputConfidenceMasks: true,
+    };
+
+    // Try requested delegate, fall back to CPU if GPU fails
+    try {
+      this.segmenter = await ImageSegmenter.createFromOptions(vision, opts);
+      this.delegate = this.config.delegate;
+    } catch (e) {
+      if (this.config.delegate === 'GPU') {
+        console.warn('[segmo] GPU delegate failed, falling back to CPU:', e);
+        opts.baseOptions.delegate = 'CPU';
+        this.segmenter = await ImageSegmenter.createFromOptions(vision, opts);
+        this.delegate = 'CPU';
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  segment(input: SegmentationInput, timestamp: number): Float32Array | null {
+    if (!this.segmenter) return null;
+
+    let result: ImageSegmenterResult;
+    try {
+      result = this.segmenter.segmentForVideo(input as HTMLCanvasElement | ImageData, timestamp);
+    } catch (e) {
+      console.error('[segmo] segmentForVideo failed:', e);
+      return null;
+    }
+    if (!result.confidenceMasks || result.confidenceMasks.length === 0) return null;
+
+    // Extract confidence mask (person vs background)
+    // Multiclass model returns [background, hair, body-skin, face-skin, clothes, accessories]
+    // For single-class model returns [background] or [person]
+    const firstMask = result.confidenceMasks[0];
+    const firstData = firstMask.getAsFloat32Array();
+    const pixelCount = firstData.length;
+
+    // Reuse buffer to minimize GC pressure
+    if (!this.mask || this.mask.length !== pixelCount) {
+      this.mask = new Float32Array(pixelCount);
+    }
+
+    if (result.confidenceMasks.length > 2) {
+      // Multiclass: person = 1 - background (sum all non-background categories)
+      // Background is index 0, so person confidence = 1 - background confidence
+      for (let i = 0; i < pixelCount; i++) {
+        this.mask[i] = 1.0 - firstData[i];
+      }
+      if (this.config.multiclass) this.keepClassMasks(result, pixelCount);
+    } else {
+      // Single-class or binary: use last mask (person confidence)
+      const mask = result.confidenceMasks[result.confidenceMasks.length - 1];
+      this.mask.set(mask.getAsFloat32Array());
+      if (mask !== firstMask) mask.close();
+    }
+
+    // Close masks to release internal buffers
+    firstMask.close();
+    for (let i = 1; i < result.confidenceMasks.length; i++) {
+      result.confidenceMasks[i].close();
+    }
+    return this.mask;
+  }
+
+  getClassMasks(): ClassMasks | null {
+    return this.classMasks;
+  }
+
+  destroy(): void {
+    this.segmenter?.close();
+    this.segmenter = null;
+    this.mask = null;
+    this.classMasks = null;
+  }
+
+  /** Copy the per-class confidence masks out before they are closed */
+  private keepClassMasks(result: ImageSegmenterResult, pixelCount: number): void {
+    const classMasks: ClassMasks = this.classMasks ?? {};
+    MULTICLASS_CATEGORIES.forEach((name, i) => {
+      const mask = result.confidenceMasks![i + 1];
+      if (!mask) return;
+      let buffer = classMasks[name];
+      if (!buffer || buffer.length !== pixelCount) buffer = classMasks[name] = new Float32Array(pixelCount);
+      buffer.set(mask.getAsFloat32Array());
+    });
+    this.classMasks = classMasks;
+  }
+}
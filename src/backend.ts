@@ -0,0 +1,80 @@
+/**
+ * Segmentation Backend Interface
+ *
+ * The model behind SegmentationModel is pluggable: anything that turns a
+ * frame into a person-confidence mask can drive the pipeline — MediaPipe
+ * (the default, see backend-mediapipe.ts), ONNX Runtime Web, TF.js or an
+ * in-house matting model.
+ *
+ * A backend only runs inference. SegmentationModel owns everything around it:
+ * resizing the frame (or the ROI crop around the person) to the backend's
+ * native input size, mapping ROI masks back to full-frame coordinates, the
+ * person bbox and the centroid motion tracking that drives interpolation.
+ *
+ * ```ts
+ * const backend: SegmentationBackend = {
+ *   inputWidth: 256,
+ *   inputHeight: 256,
+ *   async init() { session ??= await ort.InferenceSession.create(modelUrl); },
+ *   async segment(input) { return runMatting(session, input as ImageData); },
+ *   destroy() { session?.release(); },
+ * };
+ * const processor = new SegmentationProcessor({ backend });
+ * ```
+ */
+
+/** What segment() receives: the resized frame as a canvas, or its raw pixels */
+export type SegmentationInput = HTMLCanvasElement | OffscreenCanvas | ImageData;
+
+/** Body-part classes of multiclass models (e.g. MediaPipe selfie_multiclass_256x256) */
+export type SegmentationClass = 'hair' | 'bodySkin' | 'faceSkin' | 'clothes' | 'accessories';
+
+/** Per-class confidence maps (0-1), same size and layout as the person mask */
+export type ClassMasks = Partial<Record<SegmentationClass, Float32Array>>;
+
+export interface SegmentationBackend {
+  /** Native model input width; the mask comes back at this size too */
+  readonly inputWidth: number;
+  /** Native model input height */
+  readonly inputHeight: number;
+  /**
+   * 'imageData' hands segment() RGBA pixels, 'canvas' the resize canvas itself
+   * (no CPU readback — for backends that upload to the GPU) (default: 'imageData')
+   */
+  readonly inputKind?: 'canvas' | 'imageData';
+  /** Where inference runs, reported in diagnostics (default: 'CPU') */
+  readonly delegate?: 'GPU' | 'CPU';
+
+  /**
+   * Load the model. Called on every processor init, camera switches included —
+   * return early when already loaded.
+   */
+  init(): Promise<void>;
+
+  /**
+   * Segment one frame at inputWidth × inputHeight.
+   *
+   * Returns person confidence (0-1) per pixel, row-major from the top-left,
+   * or null when inference failed. The array is copied, so a backend may reuse
+   * it. Async backends may return a promise: the processor keeps rendering with
+   * the previous mask and picks the result up on its next model frame, with at
+   * most one inference in flight.
+   *
+   * @param input - The frame, or the ROI crop around the person, resized to the input size
+   * @param timestamp - Frame timestamp in ms, monotonically increasing
+   */
+  segment(input: SegmentationInput, timestamp: number): Float32Array | null | Promise<Float32Array | null>;
+
+  /**
+   * Per-class maps for the mask segment() just produced (multiclass backends
+   * only). Read right after segment() returns or its promise resolves, and
+   * copied like the mask.
+   */
+  getClassMasks?(): ClassMasks | null;
+
+  /**
+   * Release model resources. A backend passed to the processor is destroyed
+   * with the processor, not on camera switches.
+   */
+  destroy(): void;
+}
@@ -0,0 +1,87 @@
+/**
+ * Background Source Loading
+ *
+ * Normalizes everything setBackground() accepts — any TexImageSource, a Blob
+ * or a URL string — into a decoded ImageBitmap. Decoding happens off the
+ * render path, so the previous background stays on screen until the new one
+ * is fully ready, and failures come back as a typed result instead of a
+ * black frame or an uncaught SecurityError from texImage2D.
+ *
+ * Works in workers: no HTMLImageElement is needed for Blob/URL sources.
+ */
+
+export type BackgroundSource = TexImageSource | Blob | string;
+
+/**
+ * Why a background failed to load:
+ * - 'network':    URL unreachable or non-2xx response
+ * - 'cors':       server reachable but cross-origin access denied (or source is tainted)
+ * - 'decode':     data is not a decodable image
+ * - 'superseded': a newer background was set before this one finished loading
+ */
+export type BackgroundLoadError = 'network' | 'cors' | 'decode' | 'superseded';
+
+export type BackgroundLoadResult =
+  | { ok: true; width: number; height: number }
+  | { ok: false; error: BackgroundLoadError; message: string };
+
+export type LoadedBackground =
+  | { ok: true; bitmap: ImageBitmap }
+  | { ok: false; error: BackgroundLoadError; message: string };
+
+/** Fetch (if URL), decode and snapshot a background source into an ImageBitmap */
+export async function loadBackgroundSource(source: BackgroundSource): Promise<LoadedBackground> {
+  let decodable: ImageBitmapSource;
+
+  if (typeof source === 'string') {
+    const fetched = await fetchImageBlob(source);
+    if (!fetched.ok) return fetched;
+    decodable = fetched.blob;
+  } else {
+    if ('naturalWidth' in source && !source.complete) {
+      // <img> still loading — wait for it (rejects on load error)
+      try {
+        await source.decode();
+      } catch (e) {
+        return { ok: false, error: 'decode', message: `Image failed to load: ${String(e)}` };
+      }
+    }
+    decodable = source;
+  }
+
+  try {
+    return { ok: true, bitmap: await createImageBitmap(decodable) };
+  } catch (e) {
+    // Cross-origin media without CORS headers taints the canvas → SecurityError
+    if (e instanceof DOMException && e.name === 'SecurityError') {
+      return { ok: false, error: 'cors', message: `Background source is cross-origin without CORS access: ${e.message}` };
+    }
+    return { ok: false, error: 'decode', message: `Background could not be decoded: ${String(e)}` };
+  }
+}
+
+async function fetchImageBlob(
+  url: string,
+): Promise<{ ok: true; blob: Blob } | { ok: false; error: BackgroundLoadError; message: string }> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors', credentials: 'same-origin' });
+  } catch (e) {
+    // fetch() rejects identically for CORS and network failures. If an opaque
+    // no-cors request succeeds, the server is reachable but withholds CORS headers.
+    const reachable = await fetch(url, { mode: 'no-cors' }).then(() => true, () => false);
+    return reachable
+      ? { ok: false, error: 'cors', message: `${url} does not allow cross-origin access (missing Access-Control-Allow-Origin)` }
+      : { ok: false, error: 'network', message: `Failed to fetch ${url}: ${String(e)}` };
+  }
+
+  if (!response.ok) {
+    return { ok: false, error: 'network', message: `Failed to fetch ${url}: HTTP ${response.status}` };
+  }
+
+  try {
+    return { ok: true, blob: await response.blob() };
+  } catch (e) {
+    return { ok: false, error: 'network', message: `Failed to read ${url}: ${String(e)}` };
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Background Video Source
+ *
+ * Wraps a looping HTMLVideoElement or a live MediaStreamTrack for the 'video'
+ * background mode. Tracks when the source has actually presented a new frame,
+ * so the pipeline only re-uploads the background texture on change:
+ * a 24fps clip composited into a 30fps call costs 24 uploads/s, not 30.
+ *
+ * Frame detection, best available first:
+ * - MediaStreamTrack: MediaStreamTrackProcessor (each VideoFrame is a new frame),
+ *   falling back to a hidden <video> element (main thread only — see checkBackgroundVideo)
+ * - HTMLVideoElement: requestVideoFrameCallback, falling back to currentTime polling
+ */
+
+export type BackgroundVideoInput = HTMLVideoElement | MediaStreamTrack;
+
+/**
+ * Whether a video background can play here:
+ * - 'unsupported': a track without MediaStreamTrackProcessor needs the hidden
+ *   <video> fallback, which has no document to live in inside a worker
+ */
+export type BackgroundVideoResult =
+  | { ok: true }
+  | { ok: false; error: 'unsupported'; message: string };
+
+/** Check a video background source before switching to it */
+export function checkBackgroundVideo(input: BackgroundVideoInput): BackgroundVideoResult {
+  if (needsHiddenVideo(input) && typeof document === 'undefined') {
+    return {
+      ok: false,
+      error: 'unsupported',
+      message: 'A MediaStreamTrack background needs MediaStreamTrackProcessor or a document for its <video> fallback — not available in this worker',
+    };
+  }
+  return { ok: true };
+}
+
+function needsHiddenVideo(input: BackgroundVideoInput): boolean {
+  return typeof MediaStreamTrack !== 'undefined' && input instanceof MediaStreamTrack &&
+    typeof MediaStreamTrackProcessor === 'undefined';
+}
+
+export class BackgroundVideoSource {
+  private video: HTMLVideoElement | null = null;
+  private ownsVideo = false;
+  private reader: ReadableStreamDefaultReader<VideoFrame> | null = null;
+  private latestFrame: VideoFrame | null = null;
+  private frameCallbackId: number | null = null;
+  private lastMediaTime = -1;
+  private hasNewFrame = true; // Upload whatever is available on first use
+  private destroyed = false;
+
+  constructor(input: BackgroundVideoInput) {
+    if (typeof MediaStreamTrack !== 'undefined' && input instanceof MediaStreamTrack) {
+      if (!needsHiddenVideo(input)) {
+        this.readTrack(input);
+      } else if (typeof document !== 'undefined') {
+        // No Insertable Streams (Safari, Firefox) — play the track in a hidden element
+        const video = document.createElement('video');
+        video.srcObject = new MediaStream([input]);
+        video.muted = true;
+        video.playsInline = true;
+        video.play().catch(() => { /* autoplay blocked — frames arrive once playing */ });
+        this.video = video;
+        this.ownsVideo = true;
+        this.watchVideo(video);
+      } else {
+        // No fallback in a worker — takeFrame() stays null
+        const check = checkBackgroundVideo(input);
+        if (!check.ok) console.warn(`[segmo] ${check.message}`);
+      }
+    } else {
+      this.video = input as HTMLVideoElement;
+      this.watchVideo(this.video);
+    }
+  }
+
+  /**
+   * Returns the frame to upload if the source presented a new frame since the
+   * last call, or null if the previously uploaded frame is still current.
+   */
+  takeFrame(): TexImageSource | null {
+    if (this.destroyed) return null;
+
+    if (this.latestFrame) {
+      if (!this.hasNewFrame) return null;
+      this.hasNewFrame = false;
+      return this.latestFrame;
+    }
+
+    const video = this.video;
+    if (!video || video.readyState < video.HAVE_CURRENT_DATA) return null;
+
+    // No requestVideoFrameCallback: treat any currentTime change as a new frame
+    if (this.frameCallbackId === null && video.currentTime !== this.lastMediaTime) {
+      this.lastMediaTime = video.currentTime;
+      this.hasNewFrame = true;
+    }
+
+    if (!this.hasNewFrame) return null;
+    this.hasNewFrame = false;
+    return video;
+  }
+
+  /** Stop watching the source. Does not stop a caller-owned track or element. */
+  destroy(): void {
+    this.destroyed = true;
+    this.reader?.cancel().catch(() => { /* already closed */ });
+    this.reader = null;
+    this.latestFrame?.close();
+    this.latestFrame = null;
+    if (this.video && this.frameCallbackId !== null && 'cancelVideoFrameCallback' in this.video) {
+      this.video.cancelVideoFrameCallback(this.frameCallbackId);
+    }
+    this.frameCallbackId = null;
+    if (this.video && this.ownsVideo) {
+      this.video.srcObject = null;
+    }
+    this.video = null;
+  }
+
+  // === Private ===
+
+  private readTrack(track: MediaStreamTrack): void {
+    const reader = new MediaStreamTrackProcessor({ track }).readable.getReader();
+    this.reader = reader;
+
+    const pump = (): void => {
+      reader.read().then(({ value, done }) => {
+        if (done || this.destroyed) {
+          value?.close();
+          return;
+        }
+        // Keep only the newest frame — a slow consumer never builds a backlog
+        this.latestFrame?.close();
+        this.latestFrame = value;
+        this.hasNewFrame = true;
+        pump();
+      }).catch(() => { /* track ended or reader cancelled */ });
+    };
+    pump();
+  }
+
+  private watchVideo(video: HTMLVideoElement): void {
+    if (typeof video.requestVideoFrameCallback !== 'function') return;
+
+    const onFrame = (): void => {
+      if (this.destroyed) return;
+      this.hasNewFrame = true;
+      this.frameCallbackId = video.requestVideoFrameCallback(onFrame);
+    };
+    this.frameCallbackId = video.requestVideoFrameCallback(onFrame);
+  }
+}
@@ -24,6 +24,7 @@
 export { SegmentationProcessor } from './processor';
 export type {
   SegmentationProcessorOptions,
+  OutputOptions,
   BackgroundMode,
   DiagnosticsLevel,
   DiagnosticEvent,
@@ -34,10 +35,22 @@ export type {
 } from './processor';
 
 export { PostProcessingPipeline } from './pipeline';
-export type { PipelineOptions } from './pipeline';
+export type {
+  PipelineOptions,
+  BackgroundFit,
+  StylizedBackgroundMode,
+  OverlayOptions,
+  OverlayLayer,
+  SegmentationSource,
+  ColorRange,
+  PipelineOutput,
+} from './pipeline';
 
 export { SegmentationModel } from './model';
 export type { ModelConfig, CropRegion } from './model';
+export type { SegmentationBackend, SegmentationInput, SegmentationClass, ClassMasks } from './backend';
+export { MediaPipeBackend } from './backend-mediapipe';
+export type { MediaPipeBackendConfig } from './backend-mediapipe';
 
 export { AdaptiveQualityController } from './adaptive';
 export type { AdaptiveConfig, QualityLevel } from './adaptive';
@@ -45,5 +58,14 @@ export type { AdaptiveConfig, QualityLevel } from './adaptive';
 export { AutoFramer } from './autoframe';
 export type { AutoFrameConfig, CropRect } from './autoframe';
 
+export { FramePacer } from './pacer';
+export type { FramePacerConfig } from './pacer';
+
+export { PersonTracker } from './people';
+export type { PersonTrackerConfig, PersonPolicy, TrackedPerson } from './people';
+
+export type { BackgroundVideoInput, BackgroundVideoResult } from './background-video';
+export type { BackgroundSource, BackgroundLoadResult, BackgroundLoadError } from './background-source';
+
 export { ModelWorkerClient } from './model-worker';
 export type { WorkerMaskResult } from './model-worker';
@@ -12,7 +12,7 @@
  *   // mask arrives asynchronously via onMask callback
  */
 
-import type { ModelConfig, CropRegion } from './model';
+import { DEFAULT_WASM_BASE_PATH, DEFAULT_VISION_MODULE_URL, type ModelConfig, type CropRegion } from './model';
 
 // Worker code as string — loaded via Blob URL so no separate file is needed.
 // Uses dynamic import() for MediaPipe to work in both classic and module workers.
@@ -30,17 +30,16 @@ let hasPreviousMask = false;
 async function init(cfg) {
   config = cfg;
 
-  const mp = await import(
-    'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.32/+esm'
-  );
+  const mp = await import(cfg.visionModuleUrl);
 
-  const vision = await mp.FilesetResolver.forVisionTasks(
-    'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.32/wasm'
-  );
+  const vision = await mp.FilesetResolver.forVisionTasks(cfg.wasmBasePath);
 
+  const buffer = cfg.modelAssetBuffer;
   const opts = {
     baseOptions: {
-      modelAssetPath: cfg.modelAssetPath,
+      ...(buffer
+        ? { modelAssetBuffer: buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer) }
+        : { modelAssetPath: cfg.modelAssetPath }),
       delegate: cfg.delegate,
     },
     runningMode: 'VIDEO',
@@ -218,6 +217,11 @@ export interface WorkerMaskResult {
   inferenceMs: number;
 }
 
+/** Absolute form of a URL relative to the page (unchanged outside a document context) */
+function resolveUrl(url: string): string {
+  return typeof location === 'undefined' ? url : new URL(url, location.href).href;
+}
+
 export class ModelWorkerClient {
   private worker: Worker | null = null;
   private ready = false;
@@ -229,8 +233,13 @@ export class ModelWorkerClient {
 
   constructor(config: ModelConfig) {
     this.config = {
-      modelAssetPath: config.modelAssetPath || 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter_landscape/float16/latest/selfie_segmenter_landscape.tflite' ||
-        'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite',
+      // The worker runs from a blob: URL, which relative URLs can't resolve against —
+      // make them absolute against the page first
+      modelAssetPath: resolveUrl(config.modelAssetPath || 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter_landscape/float16/latest/selfie_segmenter_landscape.tflite'),
+      modelAssetBuffer: config.modelAssetBuffer ?? null,
+      wasmBasePath: resolveUrl(config.wasmBasePath || DEFAULT_WASM_BASE_PATH),
+      visionModuleUrl: resolveUrl(config.visionModuleUrl || DEFAULT_VISION_MODULE_URL),
+      multiclass: false, // Person mask only — class masks need main-thread inference
       delegate: config.delegate || 'GPU',
       outputWidth: config.outputWidth || 256,
       outputHeight: config.outputHeight || 144,
@@ -1,7 +1,8 @@
 /**
  * Segmentation Model Wrapper
  *
- * Wraps MediaPipe's Image Segmenter for efficient inference.
+ * Runs a SegmentationBackend (MediaPipe's Image Segmenter by default) and
+ * turns its masks into full-frame masks with person bbox and motion tracking.
  *
  * KEY DESIGN DECISION: Google Meet uses CPU inference (WASM + SIMD + XNNPACK),
  * NOT GPU. This is counterintuitive but intentional:
@@ -13,15 +14,31 @@
  * We default to CPU but allow GPU override for devices where it's faster.
  */
 
-import {
-  ImageSegmenter,
-  FilesetResolver,
-  ImageSegmenterResult,
-} from '@mediapipe/tasks-vision';
+import type { SegmentationBackend, ClassMasks, SegmentationClass } from './backend';
+import { MediaPipeBackend } from './backend-mediapipe';
+import type { PersonTracker } from './people';
 
 export interface ModelConfig {
   /** Model asset path (default: MediaPipe selfie segmenter landscape) */
   modelAssetPath?: string;
+  /**
+   * Model file contents, e.g. bundled or fetched from your own origin — used
+   * instead of modelAssetPath when set (default: null)
+   */
+  modelAssetBuffer?: ArrayBuffer | Uint8Array | null;
+  /** Base URL of the MediaPipe WASM fileset, for self-hosting (default: jsDelivr CDN) */
+  wasmBasePath?: string;
+  /**
+   * URL of the tasks-vision ES module imported by the Web Worker (default: jsDelivr CDN).
+   * The main thread uses the bundled @mediapipe/tasks-vision package instead.
+   */
+  visionModuleUrl?: string;
+  /**
+   * Keep per-class masks (hair, body/face skin, clothes, accessories) from a
+   * multiclass model for class-aware edges. Defaults the model to MediaPipe's
+   * selfie_multiclass_256x256; main thread only (default: false)
+   */
+  multiclass?: boolean;
   /**
    * Delegate: 'CPU' or 'GPU'
    * Default: 'CPU' — matches Google Meet's approach.
@@ -29,19 +46,26 @@ export interface ModelConfig {
    * and avoids GPU contention with the WebGL post-processing pipeline.
    */
   delegate?: 'GPU' | 'CPU';
-  /** Output mask width (default: 256) */
+  /** Output mask width (default: 256). Ignored with a custom backend, which sets its own input size. */
   outputWidth?: number;
   /** Output mask height (default: 144) */
   outputHeight?: number;
 }
 
-const DEFAULT_MODEL_URL =
-  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite';
+/** MediaPipe WASM fileset matching the tasks-vision version segmo is built against */
+export const DEFAULT_WASM_BASE_PATH = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.32/wasm';
+
+/** tasks-vision ES module for the worker, which can't resolve bare package imports */
+export const DEFAULT_VISION_MODULE_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.32/+esm';
 
 // Landscape model is optimized for 256x144 (16:9 video) — faster than the square model
 const LANDSCAPE_MODEL_URL =
   'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter_landscape/float16/latest/selfie_segmenter_landscape.tflite';
 
+// Multiclass model: background, hair, body-skin, face-skin, clothes, accessories
+const MULTICLASS_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_multiclass_256x256/float32/latest/selfie_multiclass_256x256.tflite';
+
 
 
 /** Normalized crop region (0-1 fractions of source frame) */
@@ -53,10 +77,14 @@ export interface CropRegion {
 }
 
 export class SegmentationModel {
-  private segmenter: ImageSegmenter | null = null;
+  private backend: SegmentationBackend;
+  private ownsBackend: boolean; // Built-in MediaPipe backend — destroyed with the model
+  private ready = false;
+  private pending = false; // Async backend inference in flight
+  private asyncResult: { data: Float32Array; classes: ClassMasks | null; crop: CropRegion | null } | null = null;
+  private classMasks: ClassMasks | null = null; // Full-frame per-class masks (multiclass)
+  private people: PersonTracker | null = null; // Multi-person filter, applied before bbox/centroid
   private config: Required<ModelConfig>;
-  /** The delegate actually used after init (GPU may fall back to CPU) */
-  actualDelegate: 'GPU' | 'CPU' = 'CPU';
   private resizeCanvas: HTMLCanvasElement | OffscreenCanvas;
   private resizeCtx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
   private lastMask: Float32Array | null = null;
@@ -77,17 +105,34 @@ export class SegmentationModel {
   private cachedBBoxMaxX = 0;
   private cachedBBoxMaxY = 0;
   private cachedBBoxFound = false;
-  // Safari returns empty masks when given HTMLCanvasElement — use ImageData instead
-  private useImageData = typeof navigator !== 'undefined' &&
-    /Safari/.test(navigator.userAgent) && !/Chrome/.test(navigator.userAgent);
+  private useImageData: boolean;
 
-  constructor(config: ModelConfig = {}) {
+  /**
+   * @param config - MediaPipe model settings and mask size
+   * @param backend - Custom inference backend; its input size becomes the mask size
+   */
+  constructor(config: ModelConfig = {}, backend?: SegmentationBackend) {
     this.config = {
-      modelAssetPath: config.modelAssetPath || LANDSCAPE_MODEL_URL,
+      modelAssetPath: config.modelAssetPath || (config.multiclass ? MULTICLASS_MODEL_URL : LANDSCAPE_MODEL_URL),
+      modelAssetBuffer: config.modelAssetBuffer ?? null,
+      wasmBasePath: config.wasmBasePath || DEFAULT_WASM_BASE_PATH,
+      visionModuleUrl: config.visionModuleUrl || DEFAULT_VISION_MODULE_URL,
+      multiclass: config.multiclass ?? false,
       delegate: config.delegate || 'GPU',
-      outputWidth: config.outputWidth || 256,
-      outputHeight: config.outputHeight || 144,
+      outputWidth: backend?.inputWidth || config.outputWidth || 256,
+      outputHeight: backend?.inputHeight || config.outputHeight || 144,
     };
+    this.ownsBackend = !backend;
+    this.backend = backend ?? new MediaPipeBackend({
+      modelAssetPath: this.config.modelAssetPath,
+      modelAssetBuffer: this.config.modelAssetBuffer,
+      wasmBasePath: this.config.wasmBasePath,
+      multiclass: this.config.multiclass,
+      delegate: this.config.delegate,
+      inputWidth: this.config.outputWidth,
+      inputHeight: this.config.outputHeight,
+    });
+    this.useImageData = (this.backend.inputKind ?? 'imageData') === 'imageData';
 
     // Use HTMLCanvasElement in main thread — MediaPipe's segmentForVideo
     // doesn't accept OffscreenCanvas. Fall back to OffscreenCanvas in workers.
@@ -104,36 +149,23 @@ export class SegmentationModel {
     })! as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
   }
 
-  /** Initialize the segmentation model */
+  /** Initialize the segmentation backend */
   async init(): Promise<void> {
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.32/wasm',
-    );
-
-    const opts = {
-      baseOptions: {
-        modelAssetPath: this.config.modelAssetPath,
-        delegate: this.config.delegate,
-      },
-      runningMode: 'VIDEO' as const,
-      outputCategoryMask: false,
-      outputConfidenceMasks: true,
-    };
+    await this.backend.init();
+    this.ready = true;
+  }
 
-    // Try requested delegate, fall back to CPU if GPU fails
-    try {
-      this.segmenter = await ImageSegmenter.createFromOptions(vision, opts);
-      this.actualDelegate = this.config.delegate;
-    } catch (e) {
-      if (this.config.delegate === 'GPU') {
-        console.warn('[segmo] GPU delegate failed, falling back to CPU:', e);
-        opts.baseOptions.delegate = 'CPU';
-        this.segmenter = await ImageSegmenter.createFromOptions(vision, opts);
-        this.actualDelegate = 'CPU';
-      } else {
-        throw e;
-      }
-    }
+  /** The delegate the backend actually uses (GPU may fall back to CPU) */
+  get actualDelegate(): 'GPU' | 'CPU' {
+    return this.backend.delegate ?? 'CPU';
+  }
+
+  /**
+   * An async backend's inference is still running: segment() would neither
+   * start a new one nor hand out a result, so callers skip the model frame.
+   */
+  get inferencePending(): boolean {
+    return this.pending;
   }
 
   /**
@@ -146,7 +178,10 @@ export class SegmentationModel {
    *               giving ~2x more detail on person boundaries.
    * @param frameWidth - Full frame width (needed for ROI mapping)
    * @param frameHeight - Full frame height (needed for ROI mapping)
-   * @returns Float32Array confidence mask at model resolution (full-frame coordinates)
+   * @returns Float32Array confidence mask at model resolution (full-frame coordinates).
+   *          With an async backend: the previous inference's result once it has
+   *          landed (a new one starts alongside), null while it is still running
+   *          (see inferencePending).
    */
   segment(
     frame: TexImageSource,
@@ -155,7 +190,11 @@ export class SegmentationModel {
     frameWidth?: number,
     frameHeight?: number,
   ): Float32Array | null {
-    if (!this.segmenter) return this.fullMask ?? this.lastMask;
+    if (!this.ready) return this.fullMask ?? this.lastMask;
+    // Async backend: one inference in flight at a time
+    if (this.pending) return null;
+    const landed = this.asyncResult;
+    this.asyncResult = null;
 
     const { outputWidth, outputHeight } = this.config;
 
@@ -171,71 +210,85 @@ export class SegmentationModel {
         sx, sy, sw, sh,
         0, 0, outputWidth, outputHeight,
       );
-      this.lastCropRegion = crop;
     } else {
       // Full-frame mode: resize entire frame to model input
       this.resizeCtx.drawImage(
         frame as CanvasImageSource,
         0, 0, outputWidth, outputHeight,
       );
-      this.lastCropRegion = null;
     }
+    const inputCrop = crop && frameWidth && frameHeight ? crop : null;
 
     // Run inference
     // Safari returns empty confidence masks when given HTMLCanvasElement —
-    // use ImageData (raw pixels) which works universally.
+    // backends that want raw pixels get ImageData, which works universally.
     const input = this.useImageData
       ? this.resizeCtx.getImageData(0, 0, outputWidth, outputHeight)
-      : this.resizeCanvas as HTMLCanvasElement;
-    let result: ImageSegmenterResult;
+      : this.resizeCanvas;
+    let result: ReturnType<SegmentationBackend['segment']>;
     try {
-      result = this.segmenter.segmentForVideo(input, timestamp);
+      result = this.backend.segment(input, timestamp);
     } catch (e) {
-      console.error('[segmo] segmentForVideo failed:', e);
-      return this.lastMask;
+      console.error('[segmo] segmentation backend failed:', e);
+      return this.fullMask ?? this.lastMask;
     }
 
-    // Extract confidence mask (person vs background)
-    // Multiclass model returns [background, hair, body-skin, face-skin, clothes, accessories]
-    // For single-class model returns [background] or [person]
-    if (result.confidenceMasks && result.confidenceMasks.length > 0) {
-      const firstMask = result.confidenceMasks[0];
-      const firstData = firstMask.getAsFloat32Array();
-      const pixelCount = firstData.length;
-
-      // Reuse buffers to minimize GC pressure
-      if (!this.lastMask || this.lastMask.length !== pixelCount) {
-        this.lastMask = new Float32Array(pixelCount);
-        this.previousMask = new Float32Array(pixelCount);
-      } else {
-        // Save previous mask in full-frame space (fullMask still holds last frame's result)
-        const prev = this.fullMask ?? this.lastMask;
-        if (prev) {
-          this.previousMask!.set(prev);
-          this.hasPreviousMask = true;
-        }
-      }
+    if (result instanceof Promise) {
+      this.pending = true;
+      result.then(
+        data => {
+          // Copy now — the backend may reuse its buffers for the next run
+          if (data && this.ready) {
+            this.asyncResult = { data: new Float32Array(data), classes: this.copyBackendClasses(), crop: inputCrop };
+          }
+        },
+        e => console.error('[segmo] segmentation backend failed:', e),
+      ).finally(() => { this.pending = false; });
+      // Hand out the previous run's result while this one is in flight
+      return landed ? this.ingestMask(landed.data, landed.crop, landed.classes) : null;
+    }
+    return result ? this.ingestMask(result, inputCrop, this.backend.getClassMasks?.() ?? null) : null;
+  }
 
-      if (result.confidenceMasks.length > 2) {
-        // Multiclass: person = 1 - background (sum all non-background categories)
-        // Background is index 0, so person confidence = 1 - background confidence
-        for (let i = 0; i < pixelCount; i++) {
-          this.lastMask[i] = 1.0 - firstData[i];
-        }
-      } else {
-        // Single-class or binary: use last mask (person confidence)
-        const mask = result.confidenceMasks[result.confidenceMasks.length - 1];
-        const maskData = mask.getAsFloat32Array();
-        this.lastMask.set(maskData);
-        if (mask !== firstMask) mask.close();
-      }
+  /** Snapshot the backend's class masks (async results outlive its buffers) */
+  private copyBackendClasses(): ClassMasks | null {
+    const classes = this.backend.getClassMasks?.();
+    if (!classes) return null;
+    const copy: ClassMasks = {};
+    for (const name of Object.keys(classes) as SegmentationClass[]) {
+      copy[name] = new Float32Array(classes[name]!);
+    }
+    return copy;
+  }
+
+  /**
+   * Take a backend mask at model resolution: keep the previous mask for the
+   * motion map, map ROI masks back to full-frame coordinates and update the
+   * person bbox and centroid tracking.
+   */
+  private ingestMask(data: Float32Array, crop: CropRegion | null, classes: ClassMasks | null): Float32Array | null {
+    const { outputWidth, outputHeight } = this.config;
+    const pixelCount = outputWidth * outputHeight;
+    if (data.length !== pixelCount) {
+      console.error(`[segmo] backend mask has ${data.length} values, expected ${outputWidth}x${outputHeight}`);
+      return null;
+    }
+    this.lastCropRegion = crop;
 
-      // Close masks to release internal buffers
-      firstMask.close();
-      for (let i = 1; i < result.confidenceMasks.length; i++) {
-        result.confidenceMasks[i].close();
+    // Reuse buffers to minimize GC pressure
+    if (!this.lastMask || this.lastMask.length !== pixelCount) {
+      this.lastMask = new Float32Array(pixelCount);
+      this.previousMask = new Float32Array(pixelCount);
+    } else {
+      // Save previous mask in full-frame space (fullMask still holds last frame's result)
+      const prev = this.fullMask ?? this.lastMask;
+      if (prev) {
+        this.previousMask!.set(prev);
+        this.hasPreviousMask = true;
       }
     }
+    this.lastMask.set(data);
+    this.ingestClassMasks(classes, crop);
 
     // Map crop-space mask back to full-frame coordinates
     // Optimized: only iterate within crop bounds (skips 30-50% of pixels)
@@ -299,13 +352,20 @@ export class SegmentationModel {
       this.cachedBBoxMaxX = bMaxX;
       this.cachedBBoxMaxY = bMaxY;
       this.cachedBBoxFound = bFound;
-      if (bFound) this.updateCentroidMotion(bMinX, bMinY, bMaxX, bMaxY);
+      this.trackPeople(this.fullMask);
+      if (this.cachedBBoxFound) {
+        this.updateCentroidMotion(
+          this.cachedBBoxMinX, this.cachedBBoxMinY,
+          this.cachedBBoxMaxX, this.cachedBBoxMaxY,
+        );
+      }
 
       return this.fullMask;
     }
 
     // Non-ROI path: compute bbox during mask (already copied above)
     this.computeBBoxFromMask();
+    this.trackPeople(this.lastMask);
     if (this.cachedBBoxFound) {
       this.updateCentroidMotion(
         this.cachedBBoxMinX, this.cachedBBoxMinY,
@@ -315,6 +375,74 @@ export class SegmentationModel {
     return this.lastMask;
   }
 
+  /**
+   * Split each new mask into people and drop those the tracker's policy
+   * excludes. The bbox and centroid tracking then follow the kept people only.
+   */
+  setPersonTracker(tracker: PersonTracker | null): void {
+    this.people = tracker;
+  }
+
+  /**
+   * Filter a full-frame mask in place and narrow the cached bbox to the kept
+   * people. Runs before the centroid update, and the filtered mask becomes the
+   * next frame's previous mask, so the motion map and motion vector only see
+   * the kept people.
+   */
+  private trackPeople(mask: Float32Array): void {
+    if (!this.people) return;
+    this.people.update(mask, this.config.outputWidth, this.config.outputHeight);
+    if (this.people.policy === 'all') return; // Everyone kept — the mask bbox already covers them
+    this.people.filterMask(mask);
+    this.updateBBoxFromExternal(this.people.getKeptBBox());
+  }
+
+  /**
+   * Per-class masks matching the last mask, in full-frame coordinates at mask
+   * resolution; null unless a multiclass model is running.
+   */
+  getClassMasks(): ClassMasks | null {
+    return this.classMasks;
+  }
+
+  /** Copy class masks into reused full-frame buffers, placing ROI masks back in the frame */
+  private ingestClassMasks(classes: ClassMasks | null, crop: CropRegion | null): void {
+    if (!classes) {
+      this.classMasks = null;
+      return;
+    }
+    const mw = this.config.outputWidth;
+    const mh = this.config.outputHeight;
+    const out: ClassMasks = this.classMasks ?? {};
+
+    for (const name of Object.keys(classes) as SegmentationClass[]) {
+      const src = classes[name]!;
+      if (src.length !== mw * mh) continue;
+      let dst = out[name];
+      if (!dst || dst.length !== src.length) dst = out[name] = new Float32Array(src.length);
+      if (!crop) {
+        dst.set(src);
+        continue;
+      }
+
+      // Same nearest-neighbor mapping as the person mask
+      dst.fill(0);
+      const cx0 = crop.x * mw, cy0 = crop.y * mh;
+      const cw = crop.w * mw, ch = crop.h * mh;
+      const scaleX = mw / cw, scaleY = mh / ch;
+      const x0 = Math.max(0, Math.floor(cx0)), y0 = Math.max(0, Math.floor(cy0));
+      const x1 = Math.min(mw, Math.ceil(cx0 + cw)), y1 = Math.min(mh, Math.ceil(cy0 + ch));
+      for (let y = y0; y < y1; y++) {
+        const syOff = Math.min(((y - cy0) * scaleY) | 0, mh - 1) * mw;
+        const yOff = y * mw;
+        for (let x = x0; x < x1; x++) {
+          dst[yOff + x] = src[syOff + Math.min(((x - cx0) * scaleX) | 0, mw - 1)];
+        }
+      }
+    }
+    this.classMasks = out;
+  }
+
   /** Get the last computed mask (for interpolated frames) */
   getLastMask(): Float32Array | null {
     return this.fullMask ?? this.lastMask;
@@ -496,10 +624,13 @@ export class SegmentationModel {
     return this.config.outputHeight;
   }
 
-  /** Release model resources */
+  /** Release model resources (a caller-provided backend stays alive for reuse) */
   destroy(): void {
-    this.segmenter?.close();
-    this.segmenter = null;
+    if (this.ownsBackend) this.backend.destroy();
+    this.ready = false;
+    this.pending = false;
+    this.asyncResult = null;
+    this.classMasks = null;
     this.lastMask = null;
     this.previousMask = null;
     this.fullMask = null;
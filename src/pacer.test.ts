@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { FramePacer } from './pacer';
+
+/** Slots assigned to frames at a fixed camera rate */
+function run(pacer: FramePacer, cameraFps: number, frames: number, startUs = 0): number[] {
+  const slots: number[] = [];
+  for (let i = 0; i < frames; i++) slots.push(pacer.advance(startUs + Math.round((i * 1e6) / cameraFps)));
+  return slots;
+}
+
+describe('FramePacer', () => {
+  it('emits every frame when unpaced', () => {
+    const pacer = new FramePacer({ fps: 0 });
+    expect(run(pacer, 60, 10)).toEqual(Array(10).fill(1));
+    expect(pacer.interval).toBe(0);
+  });
+
+  it('halves a 60fps camera to 30fps', () => {
+    const slots = run(new FramePacer({ fps: 30 }), 60, 60);
+    expect(slots.filter(s => s === 1)).toHaveLength(30);
+    expect(slots.filter(s => s === 0)).toHaveLength(30);
+  });
+
+  it('keeps every frame of a matching camera despite jitter', () => {
+    const pacer = new FramePacer({ fps: 30 });
+    const slots: number[] = [];
+    for (let i = 0; i < 30; i++) {
+      const jitter = (i % 2 === 0 ? -1 : 1) * 4000; // ±4ms around a 33.3ms interval
+      slots.push(pacer.advance(Math.round((i * 1e6) / 30) + (i > 0 ? jitter : 0)));
+    }
+    expect(slots).toEqual(Array(30).fill(1));
+  });
+
+  it('repeats frames when the camera falls behind, up to maxRepeats', () => {
+    const pacer = new FramePacer({ fps: 30, maxRepeats: 2 });
+    expect(run(pacer, 15, 5)).toEqual([1, 2, 2, 2, 2]);
+
+    const capped = new FramePacer({ fps: 30, maxRepeats: 2 });
+    capped.advance(0);
+    expect(capped.advance(200_000)).toBe(3); // 6 slots late, capped at 1 + 2 repeats
+  });
+
+  it('times repeats back to back into the skipped slots', () => {
+    const pacer = new FramePacer({ fps: 30, maxRepeats: 2 });
+    pacer.advance(0);
+    const slots = pacer.advance(100_000); // 15fps camera dropped a frame — 3 slots late
+    expect(slots).toBe(3);
+
+    const repeats = pacer.repeats(100_000, slots);
+    expect(repeats).toEqual([
+      { timestamp: 33_333, duration: 33_333 },
+      { timestamp: 66_667, duration: 33_333 },
+    ]);
+    // Each repeat ends where the next frame starts — no overlap on the timeline
+    expect(repeats[1].timestamp + repeats[1].duration).toBe(100_000);
+  });
+
+  it('has no repeats for on-time frames or when unpaced', () => {
+    expect(new FramePacer({ fps: 30 }).repeats(33_333, 1)).toEqual([]);
+    expect(new FramePacer({ fps: 0 }).repeats(33_333, 3)).toEqual([]);
+  });
+
+  it('restarts the schedule after a long gap or a backwards jump', () => {
+    const pacer = new FramePacer({ fps: 30 });
+    pacer.advance(0);
+    pacer.advance(33_333);
+    expect(pacer.advance(5_000_000)).toBe(1);
+    expect(pacer.advance(5_010_000)).toBe(0);
+    expect(pacer.advance(1_000)).toBe(1);
+  });
+
+  it('restarts on setFps and reset', () => {
+    const pacer = new FramePacer({ fps: 30 });
+    pacer.advance(0);
+    expect(pacer.advance(10_000)).toBe(0);
+    pacer.setFps(60);
+    expect(pacer.fps).toBe(60);
+    expect(pacer.advance(10_000)).toBe(1);
+    pacer.reset();
+    expect(pacer.advance(12_000)).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Frame Pacer
+ *
+ * Holds the output to a target frame rate independent of the camera. A 60fps
+ * webcam in a 30fps call would otherwise run the whole GPU pipeline twice as
+ * often for frames the encoder throws away.
+ *
+ * Pacing runs on media timestamps (VideoFrame.timestamp, µs), not wall time,
+ * so a busy main thread or a delayed transform never shifts the schedule.
+ * Each frame is assigned the output slots it covers:
+ * - 0: arrived before its slot — drop without processing
+ * - 1: emit
+ * - n > 1: the camera fell behind the target — emit after n - 1 repeats of the
+ *   previous output, so the track keeps its rate (capped at maxRepeats; see repeats())
+ *
+ * A quarter-interval tolerance absorbs timestamp jitter, so a 30fps camera in
+ * a 30fps call never drops a frame that lands slightly early.
+ */
+
+export interface FramePacerConfig {
+  /** Target output rate; 0 = unpaced, every frame is emitted (default: 30) */
+  fps?: number;
+  /** Most repeats inserted for one late frame (default: 2) */
+  maxRepeats?: number;
+}
+
+/** Gap after which the schedule restarts instead of catching up (µs) */
+const RESYNC_GAP_US = 1_000_000;
+
+export class FramePacer {
+  private config: Required<FramePacerConfig>;
+  private intervalUs = 0;
+  private nextSlotUs: number | null = null;
+
+  constructor(config: FramePacerConfig = {}) {
+    this.config = {
+      fps: config.fps ?? 30,
+      maxRepeats: config.maxRepeats ?? 2,
+    };
+    this.setFps(this.config.fps);
+  }
+
+  /** Change the target rate; the schedule restarts on the next frame */
+  setFps(fps: number): void {
+    this.config.fps = Math.max(0, fps);
+    this.intervalUs = this.config.fps > 0 ? 1e6 / this.config.fps : 0;
+    this.nextSlotUs = null;
+  }
+
+  /** Target output rate (0 when unpaced) */
+  get fps(): number {
+    return this.config.fps;
+  }
+
+  /** Time between output frames in µs (0 when unpaced) */
+  get interval(): number {
+    return this.intervalUs;
+  }
+
+  /**
+   * Assign a frame to output slots.
+   *
+   * @param timestampUs - Media timestamp of the frame in µs
+   * @returns Slots covered: 0 = drop, 1 = emit, n > 1 = emit after n - 1 repeats
+   */
+  advance(timestampUs: number): number {
+    if (this.intervalUs <= 0) return 1;
+
+    const next = this.nextSlotUs;
+    // First frame, timestamps jumped backwards, or a long stall — start over
+    if (next === null || timestampUs < next - 2 * this.intervalUs || timestampUs - next > RESYNC_GAP_US) {
+      this.nextSlotUs = timestampUs + this.intervalUs;
+      return 1;
+    }
+
+    const tolerance = this.intervalUs / 4;
+    if (timestampUs < next - tolerance) return 0;
+
+    const slots = 1 + Math.floor((timestampUs - next + tolerance) / this.intervalUs);
+    this.nextSlotUs = next + slots * this.intervalUs;
+    return Math.min(slots, this.config.maxRepeats + 1);
+  }
+
+  /**
+   * Timing of the repeats for a frame that covered more than one slot. The
+   * repeats go out together, right before the frame, so their cadence follows
+   * the camera — but their timestamps fill the skipped slots back to back, one
+   * interval each, so the media timeline holds the target rate.
+   *
+   * @param timestampUs - Media timestamp of the late frame in µs
+   * @param slots - What advance() returned for it
+   * @returns Oldest first, ending where the late frame starts (empty when unpaced)
+   */
+  repeats(timestampUs: number, slots: number): { timestamp: number; duration: number }[] {
+    const out: { timestamp: number; duration: number }[] = [];
+    if (this.intervalUs <= 0) return out;
+    const duration = Math.round(this.intervalUs);
+    for (let i = slots - 1; i >= 1; i--) {
+      out.push({ timestamp: Math.round(timestampUs - i * this.intervalUs), duration });
+    }
+    return out;
+  }
+
+  /** Forget the schedule (e.g. after a track restart) */
+  reset(): void {
+    this.nextSlotUs = null;
+  }
+}
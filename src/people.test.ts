@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { PersonTracker } from './people';
+
+const W = 64;
+const H = 36;
+
+/** Mask with filled rectangles given in mask pixels [x0, y0, x1, y1) */
+function mask(...rects: [number, number, number, number][]): Float32Array {
+  const m = new Float32Array(W * H);
+  for (const [x0, y0, x1, y1] of rects) {
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) m[y * W + x] = 1;
+    }
+  }
+  return m;
+}
+
+/** Sum of mask values inside [x0, x1) columns */
+function coverage(m: Float32Array, x0: number, x1: number): number {
+  let sum = 0;
+  for (let y = 0; y < H; y++) {
+    for (let x = x0; x < x1; x++) sum += m[y * W + x];
+  }
+  return sum;
+}
+
+describe('PersonTracker', () => {
+  it('labels separate people with their own bboxes', () => {
+    const tracker = new PersonTracker();
+    const people = tracker.update(mask([4, 5, 14, 35], [40, 5, 56, 35]), W, H);
+
+    expect(people).toHaveLength(2);
+    expect(people[0].x).toBeCloseTo(40 / W); // Largest first
+    expect(people[0].width).toBeCloseTo(16 / W);
+    expect(people[1].x).toBeCloseTo(4 / W);
+    expect(people.every(p => p.kept)).toBe(true);
+  });
+
+  it('keeps IDs stable as people move', () => {
+    const tracker = new PersonTracker();
+    const first = tracker.update(mask([4, 5, 14, 35], [40, 5, 56, 35]), W, H);
+    const moved = tracker.update(mask([6, 5, 16, 35], [37, 5, 53, 35]), W, H);
+
+    const idAt = (people: typeof first, x: number) => people.find(p => p.x * W < x && (p.x + p.width) * W > x)!.id;
+    expect(idAt(moved, 10)).toBe(idAt(first, 10));
+    expect(idAt(moved, 45)).toBe(idAt(first, 45));
+  });
+
+  it('drops all but the largest person from the mask', () => {
+    const tracker = new PersonTracker({ policy: 'largest' });
+    const m = mask([4, 5, 14, 35], [40, 5, 56, 35]);
+    tracker.update(m, W, H);
+    tracker.filterMask(m);
+
+    expect(coverage(m, 0, 20)).toBe(0);
+    expect(coverage(m, 40, 56)).toBe(16 * 30);
+    expect(tracker.getKeptBBox()).toEqual({ minX: 40, minY: 5, maxX: 55, maxY: 34 });
+  });
+
+  it('drops a dropped person even when touching the kept one', () => {
+    // Two people side by side, one column apart — their bboxes overlap with the margin
+    const tracker = new PersonTracker({ policy: 'largest' });
+    const m = mask([20, 5, 30, 35], [31, 5, 47, 35]);
+    const people = tracker.update(m, W, H);
+    tracker.filterMask(m);
+
+    expect(people).toHaveLength(2);
+    expect(coverage(m, 20, 30)).toBe(0);
+    expect(coverage(m, 31, 47)).toBe(16 * 30);
+  });
+
+  it('keeps small blobs near the kept person', () => {
+    const tracker = new PersonTracker({ policy: 'largest' });
+    // A hand just off the body, and a far-away speck
+    const m = mask([40, 5, 56, 35], [57, 10, 59, 12], [2, 2, 4, 4]);
+    tracker.update(m, W, H);
+    tracker.filterMask(m);
+
+    expect(m[10 * W + 57]).toBe(1);
+    expect(m[2 * W + 2]).toBe(1); // Not a person and not near one — left alone
+  });
+
+  it('prefers the person nearest the center with the central policy', () => {
+    const tracker = new PersonTracker({ policy: 'central' });
+    const people = tracker.update(mask([2, 5, 20, 35], [28, 5, 36, 35]), W, H);
+    const kept = people.filter(p => p.kept);
+
+    expect(kept).toHaveLength(1);
+    expect(kept[0].x).toBeCloseTo(28 / W);
+  });
+
+  it('selects the person at a point and falls back to the largest when they leave', () => {
+    const tracker = new PersonTracker({ policy: 'largest', maxMissedFrames: 2 });
+    tracker.update(mask([4, 5, 14, 35], [40, 5, 56, 35]), W, H);
+
+    const id = tracker.select(9 / W, 0.5);
+    expect(tracker.policy).toBe('selected');
+    expect(tracker.getPeople().find(p => p.kept)!.id).toBe(id);
+
+    // The selected person walks out; the tracker holds the selection a few frames, then releases it
+    for (let i = 0; i < 4; i++) tracker.update(mask([40, 5, 56, 35]), W, H);
+    const people = tracker.update(mask([4, 5, 14, 35], [40, 5, 56, 35]), W, H);
+    expect(people.find(p => p.kept)!.x).toBeCloseTo(40 / W);
+  });
+
+  it('returns null when selecting with nobody in view', () => {
+    const tracker = new PersonTracker();
+    tracker.update(new Float32Array(W * H), W, H);
+    expect(tracker.select(0.5, 0.5)).toBeNull();
+  });
+});
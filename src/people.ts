@@ -0,0 +1,391 @@
+/**
+ * Multi-Person Tracking
+ *
+ * The segmentation model sees "person" pixels, not people: with two people in
+ * frame, a single bbox spans both, which wrecks the ROI crop and auto-framing.
+ * PersonTracker splits the mask into connected components, tracks each person
+ * across model frames with a stable ID, and applies a policy for who is kept:
+ *
+ * - 'all':      everyone (the single-blob behavior, but with per-person data)
+ * - 'largest':  the biggest person — usually whoever sits closest to the camera
+ * - 'central':  the person nearest the frame center
+ * - 'selected': one person picked by coordinates (e.g. a click); falls back to
+ *               'largest' while nobody is selected or the selection is lost
+ *
+ * Dropped people are removed from the mask, so the ROI crop, the bbox, the
+ * centroid tracker, auto-framing and the composite all follow the kept people.
+ * Small blobs near a kept person (a hand, a hair strand cut off by the mask
+ * threshold) stay with that person.
+ */
+
+export type PersonPolicy = 'all' | 'largest' | 'central' | 'selected';
+
+export interface PersonTrackerConfig {
+  /** Who stays in the output (default: 'all') */
+  policy?: PersonPolicy;
+  /** Smallest blob treated as a person, fraction of the frame (default: 0.01) */
+  minArea?: number;
+  /** Model frames a person may go undetected before their ID is retired (default: 15) */
+  maxMissedFrames?: number;
+}
+
+export interface TrackedPerson {
+  /** Stable across frames while the person stays in view */
+  id: number;
+  /** Bounding box left edge, fraction of frame width (0-1) */
+  x: number;
+  /** Bounding box top edge, fraction of frame height (0-1) */
+  y: number;
+  /** Bounding box width, fraction of frame width */
+  width: number;
+  /** Bounding box height, fraction of frame height */
+  height: number;
+  /** Center of mass, fraction of frame width */
+  centerX: number;
+  /** Center of mass, fraction of frame height */
+  centerY: number;
+  /** Mask coverage, fraction of the frame */
+  area: number;
+  /** Whether the policy keeps this person in the output */
+  kept: boolean;
+}
+
+interface Track extends TrackedPerson {
+  missed: number; // Consecutive model frames without a match
+  label: number; // Component label in the current frame (0 = not seen)
+}
+
+interface Component {
+  label: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  sumX: number;
+  sumY: number;
+  count: number;
+}
+
+/** Confidence above which a mask pixel belongs to a person */
+const THRESHOLD = 0.5;
+/** Margin around kept people inside which small blobs and soft edges stay (fraction of frame) */
+const KEEP_MARGIN = 0.05;
+/** A new primary must be this much larger ('largest') to take over — prevents flip-flopping */
+const SWITCH_RATIO = 1.3;
+/** A new primary must be this much closer to center ('central'), fraction of frame */
+const SWITCH_DISTANCE = 0.05;
+
+export class PersonTracker {
+  private config: Required<PersonTrackerConfig>;
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private primaryId: number | null = null;
+  private selectedId: number | null = null;
+
+  // Per-frame labeling state, reused between frames
+  private labels: Int32Array | null = null;
+  private stack: Int32Array | null = null;
+  private components: Component[] = [];
+  private width = 0;
+  private height = 0;
+
+  constructor(config: PersonTrackerConfig = {}) {
+    this.config = {
+      policy: config.policy ?? 'all',
+      minArea: config.minArea ?? 0.01,
+      maxMissedFrames: config.maxMissedFrames ?? 15,
+    };
+  }
+
+  /**
+   * Label the mask into people, match them to tracked IDs and apply the policy.
+   * Call once per model mask, then filterMask() to drop people the policy excludes.
+   *
+   * @param mask - Person confidence (0-1), row-major from the top-left
+   * @param width - Mask width
+   * @param height - Mask height
+   * @returns People currently in view
+   */
+  update(mask: Float32Array, width: number, height: number): TrackedPerson[] {
+    this.width = width;
+    this.height = height;
+    this.labelComponents(mask);
+
+    const minPixels = this.config.minArea * width * height;
+    const people = this.components.filter(c => c.count >= minPixels);
+    this.matchTracks(people);
+    this.applyPolicy();
+    return this.getPeople();
+  }
+
+  /**
+   * Zero the pixels of people the policy drops, in place. Soft edge pixels
+   * below the threshold are cleared around dropped people but never within
+   * the margin of a kept one.
+   */
+  filterMask(mask: Float32Array): void {
+    const labels = this.labels;
+    if (!labels || this.config.policy === 'all') return;
+
+    const keptRects = this.componentRects(true);
+    const droppedRects = this.componentRects(false);
+    if (droppedRects.length === 0) return;
+
+    // Kept people, plus blobs too small to be a person (a hand, a hair strand)
+    // near one — never a component that belongs to a dropped person
+    const ownedLabels = new Set(this.tracks.filter(t => t.label !== 0).map(t => t.label));
+    const keptLabels = new Set(this.tracks.filter(t => t.label !== 0 && t.kept).map(t => t.label));
+    for (const c of this.components) {
+      if (!ownedLabels.has(c.label) && keptRects.some(r => intersects(r, c))) keptLabels.add(c.label);
+    }
+
+    const w = this.width;
+    for (let i = 0; i < mask.length; i++) {
+      const label = labels[i];
+      if (label > 0) {
+        if (!keptLabels.has(label)) mask[i] = 0;
+      } else if (mask[i] > 0) {
+        const x = i % w;
+        const y = (i / w) | 0;
+        if (droppedRects.some(r => contains(r, x, y)) && !keptRects.some(r => contains(r, x, y))) mask[i] = 0;
+      }
+    }
+  }
+
+  /** Bounding box of everyone kept, in mask pixels (null when nobody is in view) */
+  getKeptBBox(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    let box: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+    for (const track of this.tracks) {
+      if (!track.kept || track.label === 0) continue;
+      const c = this.components.find(comp => comp.label === track.label)!;
+      box = box
+        ? { minX: Math.min(box.minX, c.minX), minY: Math.min(box.minY, c.minY), maxX: Math.max(box.maxX, c.maxX), maxY: Math.max(box.maxY, c.maxY) }
+        : { minX: c.minX, minY: c.minY, maxX: c.maxX, maxY: c.maxY };
+    }
+    return box;
+  }
+
+  /** People currently in view, largest first */
+  getPeople(): TrackedPerson[] {
+    return this.tracks
+      .filter(t => t.label !== 0)
+      .sort((a, b) => b.area - a.area)
+      .map(({ missed: _missed, label: _label, ...person }) => person);
+  }
+
+  /**
+   * Select the person at a point (fractions of the frame) and switch to the
+   * 'selected' policy. Picks the smallest bbox containing the point, else the
+   * nearest center. Returns the selected ID, or null when nobody is in view.
+   */
+  select(x: number, y: number): number | null {
+    const visible = this.tracks.filter(t => t.label !== 0);
+    if (visible.length === 0) return null;
+
+    const hits = visible.filter(t => x >= t.x && x <= t.x + t.width && y >= t.y && y <= t.y + t.height);
+    const pick = hits.length > 0
+      ? hits.reduce((a, b) => (b.width * b.height < a.width * a.height ? b : a))
+      : visible.reduce((a, b) => (dist(b, x, y) < dist(a, x, y) ? b : a));
+
+    this.selectedId = pick.id;
+    this.config.policy = 'selected';
+    this.applyPolicy();
+    return pick.id;
+  }
+
+  /** Change who is kept; the next update() applies it */
+  setPolicy(policy: PersonPolicy): void {
+    this.config.policy = policy;
+    if (policy !== 'selected') this.selectedId = null;
+    this.primaryId = null;
+    this.applyPolicy();
+  }
+
+  get policy(): PersonPolicy {
+    return this.config.policy;
+  }
+
+  /** Forget all tracks and the selection */
+  reset(): void {
+    this.tracks = [];
+    this.components = [];
+    this.primaryId = null;
+    this.selectedId = null;
+  }
+
+  // === Private ===
+
+  /** 8-connected labeling of pixels above the threshold (iterative flood fill) */
+  private labelComponents(mask: Float32Array): void {
+    const w = this.width;
+    const h = this.height;
+    const n = w * h;
+    if (!this.labels || this.labels.length !== n) {
+      this.labels = new Int32Array(n);
+      this.stack = new Int32Array(n);
+    }
+    const labels = this.labels;
+    const stack = this.stack!;
+    labels.fill(0);
+    this.components = [];
+
+    let next = 1;
+    for (let start = 0; start < n; start++) {
+      if (labels[start] !== 0 || mask[start] <= THRESHOLD) continue;
+
+      const c: Component = { label: next, minX: w, minY: h, maxX: 0, maxY: 0, sumX: 0, sumY: 0, count: 0 };
+      let top = 0;
+      stack[top++] = start;
+      labels[start] = next;
+
+      while (top > 0) {
+        const i = stack[--top];
+        const x = i % w;
+        const y = (i / w) | 0;
+        if (x < c.minX) c.minX = x;
+        if (x > c.maxX) c.maxX = x;
+        if (y < c.minY) c.minY = y;
+        if (y > c.maxY) c.maxY = y;
+        c.sumX += x;
+        c.sumY += y;
+        c.count++;
+
+        for (let dy = -1; dy <= 1; dy++) {
+          const ny = y + dy;
+          if (ny < 0 || ny >= h) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= w) continue;
+            const j = ny * w + nx;
+            if (labels[j] === 0 && mask[j] > THRESHOLD) {
+              labels[j] = next;
+              stack[top++] = j;
+            }
+          }
+        }
+      }
+
+      this.components.push(c);
+      next++;
+    }
+  }
+
+  /** Greedy matching of this frame's people to existing tracks by bbox overlap, then distance */
+  private matchTracks(people: Component[]): void {
+    const w = this.width;
+    const h = this.height;
+    const candidates = people.map(c => ({
+      c,
+      x: c.minX / w,
+      y: c.minY / h,
+      width: (c.maxX - c.minX + 1) / w,
+      height: (c.maxY - c.minY + 1) / h,
+      centerX: c.sumX / c.count / w,
+      centerY: c.sumY / c.count / h,
+      area: c.count / (w * h),
+    }));
+
+    // Score every track/person pair, best first
+    const pairs: { track: Track; index: number; score: number }[] = [];
+    for (const track of this.tracks) {
+      candidates.forEach((p, index) => {
+        const overlap = iou(track, p);
+        const distance = Math.hypot(track.centerX - p.centerX, track.centerY - p.centerY);
+        if (overlap > 0.1 || distance < 0.15) pairs.push({ track, index, score: overlap - distance });
+      });
+    }
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<Track>();
+    const matchedPeople = new Set<number>();
+    for (const track of this.tracks) track.label = 0;
+
+    for (const { track, index } of pairs) {
+      if (matchedTracks.has(track) || matchedPeople.has(index)) continue;
+      const { c, ...geometry } = candidates[index];
+      Object.assign(track, geometry, { label: c.label, missed: 0 });
+      matchedTracks.add(track);
+      matchedPeople.add(index);
+    }
+
+    // Unmatched tracks age out; unmatched people start new tracks
+    for (const track of this.tracks) {
+      if (!matchedTracks.has(track)) track.missed++;
+    }
+    this.tracks = this.tracks.filter(t => t.missed <= this.config.maxMissedFrames);
+    candidates.forEach(({ c, ...geometry }, index) => {
+      if (matchedPeople.has(index)) return;
+      this.tracks.push({ id: this.nextId++, ...geometry, kept: false, missed: 0, label: c.label });
+    });
+  }
+
+  private applyPolicy(): void {
+    const visible = this.tracks.filter(t => t.label !== 0);
+    const { policy } = this.config;
+
+    if (policy === 'all') {
+      for (const track of this.tracks) track.kept = true;
+      return;
+    }
+
+    let primary: Track | undefined;
+    if (policy === 'selected' && this.selectedId !== null) {
+      primary = visible.find(t => t.id === this.selectedId);
+      // Lost for good — the selection is over
+      if (!primary && !this.tracks.some(t => t.id === this.selectedId)) this.selectedId = null;
+    }
+    if (!primary) primary = this.pickPrimary(visible, policy === 'central' ? 'central' : 'largest');
+    this.primaryId = primary?.id ?? null;
+
+    for (const track of this.tracks) track.kept = track.id === this.primaryId;
+  }
+
+  /** Best person by the policy, staying with the current primary unless clearly beaten */
+  private pickPrimary(visible: Track[], by: 'largest' | 'central'): Track | undefined {
+    if (visible.length === 0) return undefined;
+    const current = visible.find(t => t.id === this.primaryId);
+
+    if (by === 'largest') {
+      const best = visible.reduce((a, b) => (b.area > a.area ? b : a));
+      return current && best.area < current.area * SWITCH_RATIO ? current : best;
+    }
+    const best = visible.reduce((a, b) => (dist(b, 0.5, 0.5) < dist(a, 0.5, 0.5) ? b : a));
+    return current && dist(best, 0.5, 0.5) > dist(current, 0.5, 0.5) - SWITCH_DISTANCE ? current : best;
+  }
+
+  /** Pixel rects (with margin) of the components of kept or dropped people */
+  private componentRects(kept: boolean): { minX: number; minY: number; maxX: number; maxY: number }[] {
+    const mx = Math.round(KEEP_MARGIN * this.width);
+    const my = Math.round(KEEP_MARGIN * this.height);
+    return this.tracks
+      .filter(t => t.label !== 0 && t.kept === kept)
+      .map(t => this.components.find(c => c.label === t.label)!)
+      .map(c => ({ minX: c.minX - mx, minY: c.minY - my, maxX: c.maxX + mx, maxY: c.maxY + my }));
+  }
+}
+
+function intersects(
+  r: { minX: number; minY: number; maxX: number; maxY: number },
+  c: { minX: number; minY: number; maxX: number; maxY: number },
+): boolean {
+  return c.minX <= r.maxX && c.maxX >= r.minX && c.minY <= r.maxY && c.maxY >= r.minY;
+}
+
+function contains(r: { minX: number; minY: number; maxX: number; maxY: number }, x: number, y: number): boolean {
+  return x >= r.minX && x <= r.maxX && y >= r.minY && y <= r.maxY;
+}
+
+function dist(p: { centerX: number; centerY: number }, x: number, y: number): number {
+  return Math.hypot(p.centerX - x, p.centerY - y);
+}
+
+function iou(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number },
+): number {
+  const ix = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const iy = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const inter = ix * iy;
+  const union = a.width * a.height + b.width * b.height - inter;
+  return union > 0 ? inter / union : 0;
+}
@@ -19,25 +19,176 @@ import {
   COLOR_MATCH_SHADER,
   CROP_SHADER,
   MASK_SHIFT_SHADER,
+  BACKGROUND_FIT_SHADER,
+  COLOR_STATS_SHADER,
+  BOKEH_SHADER,
+  DISTANCE_SEED_SHADER,
+  JUMP_FLOOD_SHADER,
+  DEPTH_FROM_DISTANCE_SHADER,
+  BLUR_WEIGHT_SHADER,
+  BLUR_NORMALIZE_SHADER,
+  STYLIZE_SHADER,
+  MATTE_SHADER,
+  BEAUTY_SHADER,
+  BACKGROUND_SNAPSHOT_SHADER,
+  OVERLAY_SHADER,
+  CHROMA_KEY_SHADER,
+  RANGE_EXPAND_SHADER,
 } from './shaders';
+import { BackgroundVideoSource, type BackgroundVideoInput } from './background-video';
+import type { ClassMasks } from './backend';
+
+/** Background modes that transform the real background instead of replacing it */
+export type StylizedBackgroundMode = 'grayscale' | 'dim' | 'pixelate' | 'posterize';
+
+const STYLE_INDEX: Record<StylizedBackgroundMode, number> = {
+  grayscale: 0,
+  dim: 1,
+  pixelate: 2,
+  posterize: 3,
+};
+
+/**
+ * Where the raw mask comes from:
+ * - 'model':  segmentation model (default)
+ * - 'chroma': keyed from the camera against a physical green screen, no model
+ * - 'hybrid': chroma key intersected with the model mask (rejects non-person objects)
+ */
+export type SegmentationSource = 'model' | 'chroma' | 'hybrid';
+
+/** Range of camera pixel values: 'full' (0-255) or 'limited' (16-235, studio swing) */
+export type ColorRange = 'full' | 'limited';
+
+/**
+ * Where an overlay is composited:
+ * - 'front':          over the whole output frame (name tags, watermarks)
+ * - 'behind-subject': on the background, occluded by the person (a logo on the wall)
+ */
+export type OverlayLayer = 'front' | 'behind-subject';
+
+export interface OverlayOptions {
+  /** Image, canvas, bitmap, ... Re-pass via update to refresh a changed canvas */
+  source: TexImageSource;
+  /**
+   * Placement as fractions of the frame, top-left origin. Front overlays use
+   * the output frame; behind-subject overlays move with the background — the
+   * uncropped camera frame, or the output frame with backgroundFixed.
+   */
+  rect: { x: number; y: number; width: number; height: number };
+  /** Opacity 0-1 (default: 1) */
+  opacity?: number;
+  /** Layer (default: 'front') */
+  layer?: OverlayLayer;
+}
+
+/** Stages computed once per frame and shared by every output */
+interface SharedStages {
+  /** Camera as the composite samples it (touched up when beauty is on) */
+  camera: WebGLTexture;
+  /** Low-light gain on the subject */
+  fgGain: [number, number, number];
+}
+
+/** Render settings of one output, passed down the render path instead of swapping shared state */
+interface OutputView {
+  backgroundMode: PipelineOptions['backgroundMode'];
+  mirror: boolean;
+  crop: { x: number; y: number; w: number; h: number } | null;
+  /** Effect fade, 0 = camera, 1 = full effect */
+  effect: number;
+}
+
+interface Overlay {
+  texture: WebGLTexture;
+  flipY: boolean;
+  rect: OverlayOptions['rect'];
+  opacity: number;
+  layer: OverlayLayer;
+}
+
+/**
+ * An extra output rendered from the same processed mask (see setOutput).
+ * Background assets and settings other than these are shared with the main output.
+ */
+export interface PipelineOutput {
+  /** Background mode; 'none' passes the camera through (still cropped/mirrored) */
+  backgroundMode: PipelineOptions['backgroundMode'] | 'none';
+  /** Mirror horizontally */
+  mirror: boolean;
+  /** Crop of the camera frame (0-1), null = full frame */
+  crop: { x: number; y: number; w: number; h: number } | null;
+  /** Receives the canvas holding this output — snapshot it synchronously */
+  sink: (output: OffscreenCanvas) => void;
+}
+
+/** How an image/video background is fitted to the frame */
+export type BackgroundFit = 'cover' | 'contain' | 'fill' | 'tile';
 
 export interface PipelineOptions {
   /** Camera frame width */
   width: number;
   /** Camera frame height */
   height: number;
+  /**
+   * Output canvas width, 0 = camera width (default: 0). May differ in aspect from
+   * the camera (the crop rect then shapes the frame). Full-res stages keep the
+   * camera aspect, downscaled when the output needs fewer pixels.
+   */
+  outputWidth?: number;
+  /** Output canvas height, 0 = camera height (default: 0) */
+  outputHeight?: number;
   /** Model output mask width */
   maskWidth: number;
   /** Model output mask height */
   maskHeight: number;
-  /** Background mode: 'blur' | 'image' | 'color' */
-  backgroundMode: 'blur' | 'image' | 'color';
+  /** Background mode: 'blur' | 'bokeh' | 'image' | 'color' | 'video' | 'transparent' | stylized */
+  backgroundMode: 'blur' | 'bokeh' | 'image' | 'color' | 'video' | 'transparent' | StylizedBackgroundMode;
   /** Background color (hex string, used when mode = 'color') */
   backgroundColor?: string;
-  /** Background image URL (used when mode = 'image') */
-  backgroundImage?: HTMLImageElement | null;
+  /** Background image (used when mode = 'image') — any texture source, including ImageBitmap */
+  backgroundImage?: TexImageSource | null;
+  /** Background video element or live track (used when mode = 'video'), re-uploaded per new frame */
+  backgroundVideo?: BackgroundVideoInput | null;
+  /** How image/video backgrounds fit the frame (default: 'cover') */
+  backgroundFit?: BackgroundFit;
+  /** Normalized point of the background kept in view when cropped/letterboxed (default: center) */
+  backgroundFocalPoint?: { x: number; y: number };
   /** Blur radius for background blur (default: 12) */
   blurRadius?: number;
+  /** Grade blur by distance from the subject — nearby background stays sharper (default: false) */
+  depthBlur?: boolean;
+  /** Distance from the silhouette, in frame heights, at which blur reaches full strength (default: 0.5) */
+  depthBlurRange?: number;
+  /** Depth blur falloff exponent: 1 = linear, >1 = stays sharp longer near the subject (default: 1.5) */
+  depthBlurFalloff?: number;
+  /** Cast a soft drop shadow of the subject onto image/video/color backgrounds (default: false) */
+  dropShadow?: boolean;
+  /** Shadow direction in degrees, screen convention: 0 = right, 90 = down (default: 45) */
+  shadowAngle?: number;
+  /** Shadow offset in frame heights (default: 0.03) */
+  shadowDistance?: number;
+  /** Shadow blur in frame heights (default: 0.04) */
+  shadowSoftness?: number;
+  /** Shadow darkness, 0-1 (default: 0.35) */
+  shadowOpacity?: number;
+  /** Brightness reduction for 'dim' mode, 0-1 (default: 0.6) */
+  dimAmount?: number;
+  /** Block size in output pixels for 'pixelate' mode (default: 24) */
+  pixelateBlockSize?: number;
+  /** Levels per color channel for 'posterize' mode (default: 4) */
+  posterizeLevels?: number;
+  /** Exclude the subject from the blur source so it doesn't halo into the background (default: true) */
+  maskAwareBlur?: boolean;
+  /** Skin smoothing on the subject, 0-1 (default: 0 = off) */
+  beautyStrength?: number;
+  /** Subject-only exposure/white-balance correction for dim rooms (default: false) */
+  lowLight?: boolean;
+  /** Low-light correction strength, 0-1 (default: 0.7) */
+  lowLightStrength?: number;
+  /** Maximum low-light exposure gain (default: 2.0) */
+  lowLightMaxGain?: number;
+  /** Crossfade duration when the background mode, image, video or color changes, 0 = hard cut (default: 300) */
+  backgroundTransitionMs?: number;
   /** Enable light wrapping on edges (default: true) */
   lightWrap?: boolean;
   /** Enable morphological closing on mask (default: true) */
@@ -56,8 +207,37 @@ export interface PipelineOptions {
   rangeSigma?: number;
   /** Keep background fixed in screen space during auto-frame crop (default: false) */
   backgroundFixed?: boolean;
+  /** Feather radius multiplier on hair when class masks are set (default: 2.0, 1 = off) */
+  hairSoftness?: number;
+  /** How hard clothes edges are when class masks are set, 0-1 (default: 0.6) */
+  clothesEdgeHardness?: number;
+  /** Mirror the output horizontally, e.g. for a self-view (default: false) */
+  mirror?: boolean;
+  /** Mask source: 'model' | 'chroma' | 'hybrid' (default: 'model') */
+  segmentationSource?: SegmentationSource;
+  /**
+   * Range of the uploaded camera pixels: 'limited' (16-235) is expanded to full
+   * range before any stage samples the camera (default: 'full')
+   */
+  inputColorRange?: ColorRange;
+  /** Green screen color for chroma/hybrid, hex (default: '#00FF00') */
+  chromaKeyColor?: string;
+  /** CbCr distance from the key color that is keyed out fully (default: 0.4) */
+  chromaKeySimilarity?: number;
+  /** Soft edge width above the similarity threshold (default: 0.08) */
+  chromaKeySmoothness?: number;
+  /** Key-color spill suppression on the subject, 0-1 (default: 0.5) */
+  chromaKeySpill?: number;
 }
 
+// Run the color statistics reduction every N frames (readback is async, means are smoothed)
+const COLOR_STATS_INTERVAL = 4;
+// EMA factor for subject/background mean colors — ~1s to settle at 30fps
+const COLOR_STATS_SMOOTHING = 0.15;
+// Low-light: subject luma the exposure gain aims for, and white balance limits per channel
+const LOW_LIGHT_TARGET_LUMA = 0.45;
+const LOW_LIGHT_WB_RANGE = [0.85, 1.15] as const;
+
 interface ShaderProgram {
   program: WebGLProgram;
   uniforms: Record<string, WebGLUniformLocation>;
@@ -84,6 +264,21 @@ export class PostProcessingPipeline {
   private lightWrapProg!: ShaderProgram;
   private colorMatchProg!: ShaderProgram;
   private cropProg!: ShaderProgram;
+  private fitProg!: ShaderProgram;
+  private colorStatsProg!: ShaderProgram;
+  private bokehProg!: ShaderProgram;
+  private distanceSeedProg!: ShaderProgram;
+  private jumpFloodProg!: ShaderProgram;
+  private depthProg!: ShaderProgram;
+  private blurWeightProg!: ShaderProgram;
+  private blurNormalizeProg!: ShaderProgram;
+  private stylizeProg!: ShaderProgram;
+  private matteProg!: ShaderProgram;
+  private beautyProg!: ShaderProgram;
+  private snapshotProg!: ShaderProgram;
+  private overlayProg!: ShaderProgram;
+  private chromaKeyProg!: ShaderProgram;
+  private rangeExpandProg!: ShaderProgram;
 
   // Framebuffers for ping-pong rendering
   private temporalFBO!: Framebuffer;
@@ -98,13 +293,51 @@ export class PostProcessingPipeline {
   private blurFBO2!: Framebuffer;
   private compositeFBO!: Framebuffer;
   private preCropFBO!: Framebuffer; // For auto-frame: render here then crop to screen
+  private backgroundFBO!: Framebuffer; // Image/video background fitted to frame aspect
+  private colorMatchFBO: Framebuffer | null = null; // Background color-matched to the subject (on first use)
+  private colorStatsFBO!: Framebuffer; // 2x1: subject mean, background mean
+  private distanceFBO1!: Framebuffer; // Jump flood ping-pong (mask res)
+  private distanceFBO2!: Framebuffer;
+  private depthFBO!: Framebuffer; // Depth-graded blur amount (mask res)
+  private blurNearFBO!: Framebuffer; // Lightly blurred background for depth-graded blur
+  private maskedSourceFBO!: Framebuffer; // Camera × background weight (mask-aware blur source)
+  private beautyFBO: Framebuffer | null = null; // Camera with the subject touched up (on first use)
+  private prevBackgroundFBO: Framebuffer | null = null; // Previous background, only while a crossfade runs
+  private behindOverlayFBO: Framebuffer | null = null; // Behind-subject overlays, background space (while any exist)
+  private frontOverlayFBO: Framebuffer | null = null; // Front overlays, output space, output size (while any exist)
+  private overlayDestTexture: WebGLTexture | null = null; // Output copy under front overlays ('transparent', on first use)
+  private chromaMaskFBO!: Framebuffer; // Chroma-keyed raw mask (mask resolution)
+  private shadowFBO1: Framebuffer | null = null; // Drop shadow blur ping (mask resolution, on first use)
+  private shadowFBO2: Framebuffer | null = null; // Drop shadow blur pong
+  private cameraRangeFBO: Framebuffer | null = null; // Range-expanded camera (limited-range input only)
 
   // Textures
-  private cameraTexture!: WebGLTexture;
+  private cameraUploadTexture!: WebGLTexture; // Camera frame as uploaded
+  private cameraTexture!: WebGLTexture; // Camera as sampled by every stage (upload or range-expanded)
   private maskTexture!: WebGLTexture;
+  private classTexture!: WebGLTexture; // Packed class masks (mask resolution, multiclass)
+  private classData: Float32Array | null = null; // Reused RGBA upload buffer
+  private hasClasses = false;
   private motionTexture!: WebGLTexture;
   private backgroundTexture!: WebGLTexture;
 
+  // Video background: only re-uploaded when the source presents a new frame
+  private backgroundVideo: BackgroundVideoSource | null = null;
+  // Source dimensions of the uploaded background (for aspect-preserving fit)
+  private backgroundSize = { width: 0, height: 0 };
+  // ImageBitmap uploads ignore UNPACK_FLIP_Y — flipped during fit instead
+  private backgroundFlipY = false;
+  private backgroundDirty = true;
+
+  // Color match statistics: async readback via PBO + fence, smoothed on CPU
+  private colorStatsPBO!: WebGLBuffer;
+  private colorStatsSync: WebGLSync | null = null;
+  private colorStatsReadback = new Float32Array(8);
+  private colorStatsFrame = 0;
+  private fgMeanColor: [number, number, number] | null = null;
+  private bgMeanColor: [number, number, number] | null = null;
+  private lowLightGain: [number, number, number] | null = null;
+
   // Geometry
   private quadVAO!: WebGLVertexArrayObject;
 
@@ -114,6 +347,27 @@ export class PostProcessingPipeline {
   // Auto-frame crop (set by processor, applied in final render)
   private cropRect: { x: number; y: number; w: number; h: number } | null = null;
 
+  // Background crossfade: the previous background is frozen in prevBackgroundFBO
+  // and faded out over backgroundTransitionMs
+  private lastBackgroundTex: WebGLTexture | null = null;
+  private lastBackgroundIsColor = false;
+  private transitionStart = -1; // performance.now() at start, -1 = no transition
+
+  // Overlays in draw order; flattened into one layer texture each when changed
+  private overlays = new Map<number, Overlay>();
+  private overlaysDirty = false;
+  private hasBehindOverlays = false;
+  private hasFrontOverlays = false;
+
+  // Extra outputs sharing this frame's mask, rendered before the main output
+  private outputs = new Map<number, PipelineOutput>();
+
+  // Whole-effect fade (set by the processor when toggling 'none')
+  private effectAmount = 1;
+
+  // Matte output: receives the canvas while it holds the matte, before compositing
+  private matteCallback: ((matte: OffscreenCanvas) => void) | null = null;
+
   // WebGL context loss tracking
   private contextLost = false;
 
@@ -121,7 +375,27 @@ export class PostProcessingPipeline {
     this.opts = {
       backgroundColor: '#00FF00',
       backgroundImage: null,
+      backgroundVideo: null,
+      backgroundFit: 'cover',
+      backgroundFocalPoint: { x: 0.5, y: 0.5 },
       blurRadius: 12,
+      depthBlur: false,
+      depthBlurRange: 0.5,
+      depthBlurFalloff: 1.5,
+      maskAwareBlur: true,
+      dropShadow: false,
+      shadowAngle: 45,
+      shadowDistance: 0.03,
+      shadowSoftness: 0.04,
+      shadowOpacity: 0.35,
+      dimAmount: 0.6,
+      pixelateBlockSize: 24,
+      posterizeLevels: 4,
+      beautyStrength: 0,
+      lowLight: false,
+      lowLightStrength: 0.7,
+      lowLightMaxGain: 2.0,
+      backgroundTransitionMs: 300,
       lightWrap: true,
       morphology: true,
       morphologyRadius: 1.0,
@@ -131,14 +405,36 @@ export class PostProcessingPipeline {
       featherRadius: 3.0,
       rangeSigma: 0.1,
       backgroundFixed: false,
+      hairSoftness: 2.0,
+      clothesEdgeHardness: 0.6,
+      mirror: false,
+      segmentationSource: 'model',
+      inputColorRange: 'full',
+      chromaKeyColor: '#00FF00',
+      chromaKeySimilarity: 0.4,
+      chromaKeySmoothness: 0.08,
+      chromaKeySpill: 0.5,
+      outputWidth: 0,
+      outputHeight: 0,
       ...options,
     };
 
-    this.canvas = new OffscreenCanvas(this.opts.width, this.opts.height);
+    // Output size is independent of the camera: full-res stages (opts.width/height)
+    // keep the camera aspect but shrink to the smallest size that still covers the
+    // output on both axes; the final render scales/crops to the canvas
+    const outputWidth = this.opts.outputWidth || this.opts.width;
+    const outputHeight = this.opts.outputHeight || this.opts.height;
+    const scale = Math.min(1, Math.max(outputWidth / this.opts.width, outputHeight / this.opts.height));
+    this.opts.width = Math.max(1, Math.round(this.opts.width * scale));
+    this.opts.height = Math.max(1, Math.round(this.opts.height * scale));
+    this.opts.outputWidth = outputWidth;
+    this.opts.outputHeight = outputHeight;
+
+    this.canvas = new OffscreenCanvas(outputWidth, outputHeight);
     const gl = this.canvas.getContext('webgl2', {
       premultipliedAlpha: false,
       preserveDrawingBuffer: true,
-      alpha: false,
+      alpha: true, // Opaque modes write alpha = 1; 'transparent' writes the mask
       antialias: false,
       powerPreference: 'high-performance',
     });
@@ -186,10 +482,12 @@ export class PostProcessingPipeline {
     ]);
     this.featherProg = this.createProgram(VERTEX_SHADER, EDGE_FEATHER_SHADER, [
       'u_mask', 'u_texelSize', 'u_featherRadius', 'u_edgeLow', 'u_edgeHigh',
+      'u_hasClasses', 'u_hairSoftness', 'u_clothesHardness',
     ]);
     this.compositeProg = this.createProgram(VERTEX_SHADER, COMPOSITE_SHADER, [
       'u_camera', 'u_mask', 'u_background', 'u_backgroundMode', 'u_backgroundColor', 'u_texelSize',
-      'u_cropOffset', 'u_cropSize',
+      'u_cropOffset', 'u_cropSize', 'u_depthBlur', 'u_fgGain', 'u_transition', 'u_effect',
+      'u_hasBehindOverlay', 'u_keyColor', 'u_spill', 'u_shadowOffset', 'u_shadowOpacity',
     ]);
     this.blurProg = this.createProgram(VERTEX_SHADER, BLUR_PASS_SHADER, [
       'u_source', 'u_direction', 'u_radius',
@@ -204,6 +502,41 @@ export class PostProcessingPipeline {
     this.cropProg = this.createProgram(VERTEX_SHADER, CROP_SHADER, [
       'u_source', 'u_cropOffset', 'u_cropSize',
     ]);
+    this.fitProg = this.createProgram(VERTEX_SHADER, BACKGROUND_FIT_SHADER, [
+      'u_source', 'u_uvScale', 'u_uvOffset', 'u_tile', 'u_fillColor',
+    ]);
+    this.colorStatsProg = this.createProgram(VERTEX_SHADER, COLOR_STATS_SHADER, [
+      'u_camera', 'u_mask', 'u_background',
+    ]);
+    this.bokehProg = this.createProgram(VERTEX_SHADER, BOKEH_SHADER, [
+      'u_source', 'u_texelSize', 'u_radius', 'u_highlightThreshold', 'u_highlightGain',
+    ]);
+    this.distanceSeedProg = this.createProgram(VERTEX_SHADER, DISTANCE_SEED_SHADER, ['u_mask']);
+    this.jumpFloodProg = this.createProgram(VERTEX_SHADER, JUMP_FLOOD_SHADER, [
+      'u_seeds', 'u_step', 'u_aspect',
+    ]);
+    this.depthProg = this.createProgram(VERTEX_SHADER, DEPTH_FROM_DISTANCE_SHADER, [
+      'u_seeds', 'u_aspect', 'u_range', 'u_falloff',
+    ]);
+    this.blurWeightProg = this.createProgram(VERTEX_SHADER, BLUR_WEIGHT_SHADER, ['u_camera', 'u_mask']);
+    this.blurNormalizeProg = this.createProgram(VERTEX_SHADER, BLUR_NORMALIZE_SHADER, ['u_source']);
+    this.matteProg = this.createProgram(VERTEX_SHADER, MATTE_SHADER, ['u_mask']);
+    this.snapshotProg = this.createProgram(VERTEX_SHADER, BACKGROUND_SNAPSHOT_SHADER, [
+      'u_background', 'u_color', 'u_useColor',
+    ]);
+    this.overlayProg = this.createProgram(VERTEX_SHADER, OVERLAY_SHADER, [
+      'u_source', 'u_opacity', 'u_flipY', 'u_premultiplied', 'u_over',
+    ]);
+    this.rangeExpandProg = this.createProgram(VERTEX_SHADER, RANGE_EXPAND_SHADER, ['u_source']);
+    this.chromaKeyProg = this.createProgram(VERTEX_SHADER, CHROMA_KEY_SHADER, [
+      'u_camera', 'u_modelMask', 'u_texelSize', 'u_keyColor', 'u_similarity', 'u_smoothness', 'u_useModel',
+    ]);
+    this.beautyProg = this.createProgram(VERTEX_SHADER, BEAUTY_SHADER, [
+      'u_camera', 'u_mask', 'u_texelSize', 'u_radiusScale', 'u_strength',
+    ]);
+    this.stylizeProg = this.createProgram(VERTEX_SHADER, STYLIZE_SHADER, [
+      'u_source', 'u_style', 'u_dimAmount', 'u_blockSize', 'u_levels',
+    ]);
 
     // Create framebuffers
     const { width, height, maskWidth, maskHeight } = this.opts;
@@ -214,31 +547,50 @@ export class PostProcessingPipeline {
     this.morphologyFBO1 = this.createFramebuffer(maskWidth, maskHeight);
     this.morphologyFBO2 = this.createFramebuffer(maskWidth, maskHeight);
     this.shiftFBO = this.createFramebuffer(maskWidth, maskHeight);
+    this.distanceFBO1 = this.createFramebuffer(maskWidth, maskHeight);
+    this.distanceFBO2 = this.createFramebuffer(maskWidth, maskHeight);
+    this.depthFBO = this.createFramebuffer(maskWidth, maskHeight);
 
     // Full resolution processing
     this.bilateralFBO = this.createFramebuffer(width, height);
     this.featherFBO = this.createFramebuffer(width, height);
     this.compositeFBO = this.createFramebuffer(width, height);
     this.preCropFBO = this.createFramebuffer(width, height);
+    this.backgroundFBO = this.createFramebuffer(width, height);
+    this.chromaMaskFBO = this.createFramebuffer(maskWidth, maskHeight);
+    this.colorStatsFBO = this.createFramebuffer(2, 1);
 
     // Blur at half resolution for performance
     const blurW = Math.floor(width / 2);
     const blurH = Math.floor(height / 2);
     this.blurFBO1 = this.createFramebuffer(blurW, blurH);
     this.blurFBO2 = this.createFramebuffer(blurW, blurH);
+    this.blurNearFBO = this.createFramebuffer(blurW, blurH);
+    this.maskedSourceFBO = this.createFramebuffer(blurW, blurH);
 
     // Create input textures
-    this.cameraTexture = this.createTexture();
+    this.cameraUploadTexture = this.createTexture();
+    this.cameraTexture = this.cameraUploadTexture;
     this.maskTexture = this.createTexture();
+    this.classTexture = this.createTexture();
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, 1, 1, 0, gl.RGBA, gl.FLOAT, new Float32Array(4));
     this.motionTexture = this.createTexture();
     this.backgroundTexture = this.createTexture();
 
     // Upload background image if provided
     if (this.opts.backgroundImage) {
-      gl.bindTexture(gl.TEXTURE_2D, this.backgroundTexture);
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.opts.backgroundImage);
+      this.uploadBackground(this.opts.backgroundImage);
+    }
+    if (this.opts.backgroundVideo) {
+      this.backgroundVideo = new BackgroundVideoSource(this.opts.backgroundVideo);
     }
 
+    // Pixel pack buffer for non-blocking color statistics readback
+    this.colorStatsPBO = gl.createBuffer()!;
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.colorStatsPBO);
+    gl.bufferData(gl.PIXEL_PACK_BUFFER, this.colorStatsReadback.byteLength, gl.STREAM_READ);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
     // Create fullscreen quad VAO
     this.quadVAO = this.createQuad();
 
@@ -253,21 +605,21 @@ export class PostProcessingPipeline {
    * Process one frame through the entire pipeline.
    *
    * @param cameraFrame - Current camera frame (VideoFrame, ImageBitmap, HTMLVideoElement, etc.)
-   * @param maskData - Raw segmentation mask from model (Float32Array or Uint8Array)
+   * @param maskData - Raw segmentation mask from model (Float32Array or Uint8Array),
+   *   or null to keep the last uploaded mask (chroma/hybrid re-key every frame)
    * @param motionMap - Per-pixel motion magnitude from model (optional, Float32Array)
    * @returns The output canvas (can be captured as a VideoFrame)
    */
   process(
     cameraFrame: TexImageSource,
-    maskData: Float32Array | Uint8Array,
+    maskData: Float32Array | Uint8Array | null,
     motionMap?: Float32Array | null,
   ): OffscreenCanvas {
     const gl = this.gl;
     const { width, height, maskWidth, maskHeight } = this.opts;
 
     // Upload camera frame to GPU
-    gl.bindTexture(gl.TEXTURE_2D, this.cameraTexture);
-    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, cameraFrame);
+    this.uploadCamera(cameraFrame);
 
     // Extend mask at frame edges: copy row 2-in from each edge to the outer 2 rows.
     // Prevents boundary artifacts from model low-confidence at truncated body edges,
@@ -284,7 +636,7 @@ export class PostProcessingPipeline {
         maskWidth, maskHeight, 0,
         gl.RED, gl.FLOAT, maskData,
       );
-    } else {
+    } else if (maskData) {
       gl.texImage2D(
         gl.TEXTURE_2D, 0, gl.R8,
         maskWidth, maskHeight, 0,
@@ -292,8 +644,13 @@ export class PostProcessingPipeline {
       );
     }
 
-    // Upload motion map if available
-    const hasMotionMap = motionMap != null;
+    // --- Stage 0.5: Chroma key — raw mask keyed from the camera (green screen) ---
+    const keyed = this.opts.segmentationSource !== 'model';
+    if (keyed) this.renderChromaKey();
+    const rawMask = keyed ? this.chromaMaskFBO.texture : this.maskTexture;
+
+    // Upload motion map if available (model mask only — a keyed mask is exact per frame)
+    const hasMotionMap = motionMap != null && this.opts.segmentationSource !== 'chroma';
     if (hasMotionMap) {
       gl.bindTexture(gl.TEXTURE_2D, this.motionTexture);
       gl.texImage2D(
@@ -305,9 +662,9 @@ export class PostProcessingPipeline {
 
     // --- Stage 1: Temporal Smoothing (motion-aware) ---
     this.renderToFBO(this.temporalFBO, this.temporalProg, () => {
-      this.bindTexture(0, this.maskTexture, 'u_currentMask');
+      this.bindTexture(0, rawMask, 'u_currentMask');
       this.bindTexture(1, this.previousMaskFBO.texture, 'u_previousMask');
-      this.bindTexture(2, hasMotionMap ? this.motionTexture : this.maskTexture, 'u_motionMap');
+      this.bindTexture(2, hasMotionMap ? this.motionTexture : rawMask, 'u_motionMap');
       gl.uniform1f(this.temporalProg.uniforms['u_appearRate'],
         this.isFirstFrame ? 1.0 : this.opts.appearRate);
       gl.uniform1f(this.temporalProg.uniforms['u_disappearRate'],
@@ -363,6 +720,7 @@ export class PostProcessingPipeline {
       gl.uniform1f(this.featherProg.uniforms['u_featherRadius'], this.opts.featherRadius);
       gl.uniform1f(this.featherProg.uniforms['u_edgeLow'], 0.05);
       gl.uniform1f(this.featherProg.uniforms['u_edgeHigh'], 0.95);
+      this.setClassUniforms();
     });
 
     // --- Stage 3.5: Final mask erosion (anti-halo) ---
@@ -374,53 +732,8 @@ export class PostProcessingPipeline {
       gl.uniform1f(this.morphologyProg.uniforms['u_radius'], 0.5);
     });
 
-    // --- Generate background ---
-    let backgroundTex: WebGLTexture;
-
-    if (this.opts.backgroundMode === 'blur') {
-      // Downsample camera to blur FBO and apply two-pass Gaussian
-      this.generateBlurredBackground(cameraFrame);
-      backgroundTex = this.blurFBO2.texture;
-    } else if (this.opts.backgroundMode === 'image' && this.opts.backgroundImage) {
-      backgroundTex = this.backgroundTexture;
-    } else {
-      backgroundTex = this.backgroundTexture; // Will use color uniform
-    }
-
-    // --- Stage 4: Compositing (with color decontamination) ---
-    const compositeTarget = this.opts.lightWrap ? this.compositeFBO : null;
-    const renderComposite = compositeTarget
-      ? (setup: () => void) => this.renderToFBO(compositeTarget, this.compositeProg, setup)
-      : (setup: () => void) => this.renderToScreen(this.compositeProg, setup);
-
-    const crop = this.opts.backgroundFixed && this.cropRect
-      ? this.cropRect : { x: 0, y: 0, w: 1, h: 1 };
-
-    renderComposite(() => {
-      this.bindTexture(0, this.cameraTexture, 'u_camera');
-      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask'); // eroded mask
-      this.bindTexture(2, backgroundTex, 'u_background');
-      gl.uniform1i(
-        this.compositeProg.uniforms['u_backgroundMode'],
-        this.opts.backgroundMode === 'blur' ? 0 :
-        this.opts.backgroundMode === 'image' ? 1 : 2,
-      );
-      const [r, g, b] = this.hexToRgb(this.opts.backgroundColor);
-      gl.uniform3f(this.compositeProg.uniforms['u_backgroundColor'], r, g, b);
-      gl.uniform2f(this.compositeProg.uniforms['u_texelSize'], 1.0 / width, 1.0 / height);
-      gl.uniform2f(this.compositeProg.uniforms['u_cropOffset'], crop.x, crop.y);
-      gl.uniform2f(this.compositeProg.uniforms['u_cropSize'], crop.w, crop.h);
-    });
-
-    // --- Stage 5: Light Wrap (subtle BG light spill on edges) ---
-    if (this.opts.lightWrap) {
-      this.renderToScreen(this.lightWrapProg, () => {
-        this.bindTexture(0, this.compositeFBO.texture, 'u_composite');
-        this.bindTexture(1, backgroundTex, 'u_background');
-        this.bindTexture(2, this.featherFBO.texture, 'u_mask');
-        gl.uniform1f(this.lightWrapProg.uniforms['u_wrapStrength'], 0.06);
-      });
-    }
+    // --- Stages 4-5: Background, Compositing, Light Wrap ---
+    this.composite();
 
     this.isFirstFrame = false;
     return this.canvas;
@@ -438,8 +751,7 @@ export class PostProcessingPipeline {
     const { width, height } = this.opts;
 
     // Upload camera frame
-    gl.bindTexture(gl.TEXTURE_2D, this.cameraTexture);
-    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, cameraFrame);
+    this.uploadCamera(cameraFrame);
 
     // Motion compensation: shift mask to predicted position before bilateral.
     // On interpolated frames, the mask is stale — this shifts it toward where
@@ -470,6 +782,7 @@ export class PostProcessingPipeline {
       gl.uniform1f(this.featherProg.uniforms['u_featherRadius'], this.opts.featherRadius);
       gl.uniform1f(this.featherProg.uniforms['u_edgeLow'], 0.05);
       gl.uniform1f(this.featherProg.uniforms['u_edgeHigh'], 0.95);
+      this.setClassUniforms();
     });
 
     // Final mask erosion (anti-halo)
@@ -480,68 +793,153 @@ export class PostProcessingPipeline {
       gl.uniform1f(this.morphologyProg.uniforms['u_radius'], 0.5);
     });
 
-    let backgroundTex: WebGLTexture;
-    if (this.opts.backgroundMode === 'blur') {
-      this.generateBlurredBackground(cameraFrame);
-      backgroundTex = this.blurFBO2.texture;
-    } else if (this.opts.backgroundMode === 'image' && this.opts.backgroundImage) {
-      backgroundTex = this.backgroundTexture;
-    } else {
-      backgroundTex = this.backgroundTexture;
+    this.composite();
+
+    return this.canvas;
+  }
+
+  /**
+   * Add or update overlay `id`. A new overlay needs `source` and `rect`;
+   * updates may pass any subset. Layers are re-flattened on the next frame.
+   */
+  setOverlay(id: number, overlay: Partial<OverlayOptions>): void {
+    let current = this.overlays.get(id);
+    if (!current) {
+      if (!overlay.source || !overlay.rect) return;
+      current = { texture: this.createTexture(), flipY: false, rect: overlay.rect, opacity: 1, layer: 'front' };
+      this.overlays.set(id, current);
     }
 
-    const compositeTarget = this.opts.lightWrap ? this.compositeFBO : null;
-    const renderComposite = compositeTarget
-      ? (setup: () => void) => this.renderToFBO(compositeTarget, this.compositeProg, setup)
-      : (setup: () => void) => this.renderToScreen(this.compositeProg, setup);
+    if (overlay.source) {
+      const gl = this.gl;
+      gl.bindTexture(gl.TEXTURE_2D, current.texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, overlay.source);
+      // ImageBitmap uploads ignore UNPACK_FLIP_Y — flipped when drawn instead
+      current.flipY = typeof ImageBitmap !== 'undefined' && overlay.source instanceof ImageBitmap;
+    }
+    if (overlay.rect) current.rect = overlay.rect;
+    if (overlay.opacity !== undefined) current.opacity = Math.max(0, Math.min(1, overlay.opacity));
+    if (overlay.layer) current.layer = overlay.layer;
+    this.overlaysDirty = true;
+  }
 
-    const crop = this.opts.backgroundFixed && this.cropRect
-      ? this.cropRect : { x: 0, y: 0, w: 1, h: 1 };
+  /** Remove overlay `id` and free its texture */
+  removeOverlay(id: number): void {
+    const overlay = this.overlays.get(id);
+    if (!overlay) return;
+    this.gl.deleteTexture(overlay.texture);
+    this.overlays.delete(id);
+    this.overlaysDirty = true;
+  }
 
-    renderComposite(() => {
-      this.bindTexture(0, this.cameraTexture, 'u_camera');
-      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask'); // eroded mask
-      this.bindTexture(2, backgroundTex, 'u_background');
-      gl.uniform1i(
-        this.compositeProg.uniforms['u_backgroundMode'],
-        this.opts.backgroundMode === 'blur' ? 0 :
-        this.opts.backgroundMode === 'image' ? 1 : 2,
-      );
-      const [r, g, b] = this.hexToRgb(this.opts.backgroundColor);
-      gl.uniform3f(this.compositeProg.uniforms['u_backgroundColor'], r, g, b);
-      gl.uniform2f(this.compositeProg.uniforms['u_texelSize'], 1.0 / width, 1.0 / height);
-      gl.uniform2f(this.compositeProg.uniforms['u_cropOffset'], crop.x, crop.y);
-      gl.uniform2f(this.compositeProg.uniforms['u_cropSize'], crop.w, crop.h);
+  /**
+   * Add, replace or (with null) remove extra output `id`. Extra outputs reuse
+   * this frame's processed mask and are rendered just before the main output.
+   */
+  setOutput(id: number, output: PipelineOutput | null): void {
+    if (output) this.outputs.set(id, output);
+    else this.outputs.delete(id);
+    this.releaseDisabledStages();
+  }
+
+  /**
+   * Draw the unprocessed camera frame scaled to the output size, so the output
+   * resolution and shape stay stable while the effect is off. The crop rect still applies.
+   */
+  passthrough(cameraFrame: TexImageSource): OffscreenCanvas {
+    const gl = this.gl;
+    this.uploadCamera(cameraFrame);
+
+    this.renderToScreen(this.cropProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_source');
+      gl.uniform2f(this.cropProg.uniforms['u_cropOffset'], 0, 0);
+      gl.uniform2f(this.cropProg.uniforms['u_cropSize'], 1, 1);
     });
+    return this.canvas;
+  }
 
-    if (this.opts.lightWrap) {
-      this.renderToScreen(this.lightWrapProg, () => {
-        this.bindTexture(0, this.compositeFBO.texture, 'u_composite');
-        this.bindTexture(1, backgroundTex, 'u_background');
-        this.bindTexture(2, this.featherFBO.texture, 'u_mask');
-        gl.uniform1f(this.lightWrapProg.uniforms['u_wrapStrength'], 0.06);
-      });
+  /**
+   * Set per-class masks (multiclass models) at mask resolution, or null to
+   * treat every edge alike. Hair edges are feathered wider and clothes edges
+   * hardened. Held until the next call, like the mask on interpolated frames.
+   */
+  setClassMasks(masks: ClassMasks | null): void {
+    this.hasClasses = !!masks;
+    if (!masks) return;
+
+    const { maskWidth, maskHeight } = this.opts;
+    const count = maskWidth * maskHeight;
+    if (!this.classData || this.classData.length !== count * 4) this.classData = new Float32Array(count * 4);
+    const data = this.classData;
+    const { hair, clothes, bodySkin, faceSkin, accessories } = masks;
+    for (let i = 0; i < count; i++) {
+      data[i * 4] = hair?.[i] ?? 0;
+      data[i * 4 + 1] = clothes?.[i] ?? 0;
+      data[i * 4 + 2] = (bodySkin?.[i] ?? 0) + (faceSkin?.[i] ?? 0);
+      data[i * 4 + 3] = accessories?.[i] ?? 0;
     }
 
-    return this.canvas;
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.classTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, maskWidth, maskHeight, 0, gl.RGBA, gl.FLOAT, data);
+  }
+
+  /** Set the camera color range for the next upload. Cheap — safe to call every frame. */
+  setInputColorRange(range: ColorRange): void {
+    this.opts.inputColorRange = range;
+    this.releaseDisabledStages();
   }
 
   /** Set auto-frame crop rect. When set, the final render crops/zooms the output on GPU. */
   setCropRect(rect: { x: number; y: number; w: number; h: number } | null): void {
+    // A fixed background is fitted to the output aspect while cropped — re-fit on toggle
+    if (this.opts.backgroundFixed && !rect !== !this.cropRect) this.backgroundDirty = true;
     this.cropRect = rect;
   }
 
+  /**
+   * Register a callback that receives the output canvas while it holds the
+   * grayscale matte (final mask, auto-frame crop applied), once per frame just
+   * before compositing. Snapshot it synchronously (e.g. new VideoFrame(canvas)) —
+   * the composite overwrites it right after. Pass null to stop rendering the matte.
+   */
+  setMatteCallback(cb: ((matte: OffscreenCanvas) => void) | null): void {
+    this.matteCallback = cb;
+  }
+
+  /**
+   * Fade the whole effect against the untouched camera (0 = camera, 1 = full effect).
+   * Used for smooth on/off toggles — call once per frame while fading.
+   */
+  setEffectAmount(amount: number): void {
+    this.effectAmount = Math.max(0, Math.min(1, amount));
+  }
+
   /** Update pipeline options at runtime */
   updateOptions(opts: Partial<PipelineOptions>): void {
+    // Freeze the outgoing background before a new image upload overwrites it
+    if (this.changesBackground(opts)) this.beginBackgroundTransition();
+
     Object.assign(this.opts, opts);
+    this.releaseDisabledStages();
+    // Fit, focal point or letterbox color may have changed — re-fit on next frame
+    this.backgroundDirty = true;
 
     if (opts.backgroundImage) {
-      const gl = this.gl;
-      gl.bindTexture(gl.TEXTURE_2D, this.backgroundTexture);
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, opts.backgroundImage);
+      this.uploadBackground(opts.backgroundImage);
+    }
+
+    if (opts.backgroundVideo !== undefined) {
+      this.backgroundVideo?.destroy();
+      this.backgroundVideo = opts.backgroundVideo ? new BackgroundVideoSource(opts.backgroundVideo) : null;
     }
   }
 
+  /** Low-light gain currently applied to the subject, or null when the correction is off */
+  getLowLightGain(): [number, number, number] | null {
+    return this.lowLightGain ? [...this.lowLightGain] : null;
+  }
+
   /** Get WebGL environment info for diagnostics */
   getWebGLInfo(): {
     renderer: string;
@@ -575,39 +973,304 @@ export class PostProcessingPipeline {
     // Delete programs
     [this.temporalProg, this.morphologyProg, this.shiftProg, this.bilateralProg, this.featherProg,
      this.compositeProg, this.blurProg, this.lightWrapProg, this.colorMatchProg,
-     this.cropProg].forEach(p => {
+     this.cropProg, this.fitProg, this.colorStatsProg,
+     this.bokehProg, this.distanceSeedProg, this.jumpFloodProg, this.depthProg,
+     this.blurWeightProg, this.blurNormalizeProg, this.stylizeProg,
+     this.matteProg, this.beautyProg, this.snapshotProg,
+     this.overlayProg, this.chromaKeyProg, this.rangeExpandProg].forEach(p => {
       gl.deleteProgram(p.program);
     });
 
     // Delete framebuffers
     [this.temporalFBO, this.previousMaskFBO, this.morphologyFBO1, this.morphologyFBO2, this.shiftFBO,
      this.bilateralFBO, this.featherFBO, this.blurFBO1, this.blurFBO2,
-     this.compositeFBO, this.preCropFBO].forEach(fbo => {
+     this.compositeFBO, this.preCropFBO, this.backgroundFBO,
+     this.colorStatsFBO, this.distanceFBO1, this.distanceFBO2, this.depthFBO,
+     this.blurNearFBO, this.maskedSourceFBO,
+     this.chromaMaskFBO].forEach(fbo => {
       gl.deleteFramebuffer(fbo.fbo);
       gl.deleteTexture(fbo.texture);
     });
+    this.colorMatchFBO = this.releaseFramebuffer(this.colorMatchFBO);
+    this.beautyFBO = this.releaseFramebuffer(this.beautyFBO);
+    this.prevBackgroundFBO = this.releaseFramebuffer(this.prevBackgroundFBO);
+    this.releaseOverlayLayers(true, true);
+    this.shadowFBO1 = this.releaseFramebuffer(this.shadowFBO1);
+    this.shadowFBO2 = this.releaseFramebuffer(this.shadowFBO2);
+    this.cameraRangeFBO = this.releaseFramebuffer(this.cameraRangeFBO);
 
     // Delete textures
-    gl.deleteTexture(this.cameraTexture);
+    gl.deleteTexture(this.cameraUploadTexture);
     gl.deleteTexture(this.maskTexture);
+    gl.deleteTexture(this.classTexture);
     gl.deleteTexture(this.motionTexture);
     gl.deleteTexture(this.backgroundTexture);
+    this.overlays.forEach(overlay => gl.deleteTexture(overlay.texture));
+    this.overlays.clear();
+
+    gl.deleteBuffer(this.colorStatsPBO);
+    if (this.colorStatsSync) gl.deleteSync(this.colorStatsSync);
+    this.colorStatsSync = null;
 
     gl.deleteVertexArray(this.quadVAO);
+
+    this.backgroundVideo?.destroy();
+    this.backgroundVideo = null;
   }
 
   // ==========================================================================
   // Private helpers
   // ==========================================================================
 
-  private generateBlurredBackground(cameraFrame: TexImageSource): void {
+  /**
+   * Generate the background, composite the person over it and apply light wrap.
+   * Shared by model frames and interpolated frames — expects the final mask in bilateralFBO.
+   */
+  private composite(): void {
+    // --- Matte output: render the final mask to the canvas and hand it off ---
+    if (this.matteCallback) {
+      this.renderToScreen(this.matteProg, () => {
+        this.bindTexture(0, this.bilateralFBO.texture, 'u_mask');
+      });
+      this.matteCallback(this.canvas);
+    }
+
+    // --- Subject color statistics (color match on any output, low-light correction) ---
+    if (this.opts.lowLight || (this.opts.colorMatchStrength > 0 && this.anyOutputUses('image', 'video'))) {
+      this.updateColorStats();
+    }
+
+    // --- Stages shared by every output: they don't depend on its mode, crop or mirror ---
+    if (this.overlaysDirty) this.renderOverlayLayers();
+    const shared: SharedStages = {
+      fgGain: this.updateLowLightGain(),
+      // Stage 3.75: Beauty (subject-only skin smoothing)
+      camera: this.applyBeauty(),
+    };
+    // Stage 3.9: Drop shadow (replaced backgrounds only — real rooms have their own)
+    if (this.opts.dropShadow && this.anyOutputUses('image', 'video', 'color')) this.generateShadow();
+
+    // --- Extra outputs first: the main output is what stays on the canvas ---
+    const mainBackground = this.outputs.size > 0 ? this.renderExtraOutputs(shared) : null;
+    const main = this.mainView();
+    this.renderOutput(shared, main, mainBackground ?? this.generateBackground(main.backgroundMode), true);
+  }
+
+  /** The main output's render settings */
+  private mainView(): OutputView {
+    return {
+      backgroundMode: this.opts.backgroundMode,
+      mirror: this.opts.mirror,
+      crop: this.cropRect,
+      effect: this.effectAmount,
+    };
+  }
+
+  /**
+   * Render each extra output with its own mode, crop and mirror and hand the
+   * canvas to its sink. Per-output settings travel as an OutputView, so the
+   * main output's state is never touched; everything upstream of the background
+   * is shared. Outputs are grouped by mode so each background is generated once
+   * per frame — the main output's mode goes last, and its background is returned
+   * for the main render (null when no extra output shares it).
+   */
+  private renderExtraOutputs(shared: SharedStages): WebGLTexture | null {
+    const gl = this.gl;
+    const mainMode = this.opts.backgroundMode;
+    const byMode = new Map<PipelineOutput['backgroundMode'], PipelineOutput[]>();
+    this.outputs.forEach(output => {
+      const group = byMode.get(output.backgroundMode);
+      if (group) group.push(output);
+      else byMode.set(output.backgroundMode, [output]);
+    });
+    const modes = [...byMode.keys()].sort((a, b) => Number(a === mainMode) - Number(b === mainMode));
+
+    let mainBackground: WebGLTexture | null = null;
+    for (const mode of modes) {
+      // 'none' passes the camera through — crop and mirror still apply
+      const background = mode === 'none' ? null : this.generateBackground(mode);
+      if (mode === mainMode) mainBackground = background;
+
+      for (const output of byMode.get(mode)!) {
+        const view = { mirror: output.mirror, crop: output.crop, effect: 1 };
+        if (mode === 'none' || !background) {
+          // cameraTexture is cameraRangeFBO's texture for limited-range input, so it is expanded too
+          this.renderToScreen(this.cropProg, () => {
+            this.bindTexture(0, this.cameraTexture, 'u_source');
+            gl.uniform2f(this.cropProg.uniforms['u_cropOffset'], 0, 0);
+            gl.uniform2f(this.cropProg.uniforms['u_cropSize'], 1, 1);
+          }, view);
+        } else {
+          this.renderOutput(shared, { ...view, backgroundMode: mode }, background, false);
+        }
+        output.sink(this.canvas);
+      }
+    }
+    return mainBackground;
+  }
+
+  /**
+   * Generate the background for a mode. Modes share FBOs (blur/bokeh the blur
+   * chain, stylized/image the fitted background), so the result only stays
+   * valid until another mode's background is generated.
+   */
+  private generateBackground(mode: PipelineOptions['backgroundMode']): WebGLTexture {
+    if (mode === 'blur') {
+      // Downsample camera to blur FBO and apply two-pass Gaussian
+      const background = this.generateBlurredBackground();
+      if (this.opts.depthBlur) this.generateDepthMap();
+      return background;
+    }
+    if (mode === 'bokeh') {
+      this.generateBokehBackground();
+      return this.blurFBO2.texture;
+    }
+    if (mode in STYLE_INDEX) return this.generateStylizedBackground(mode as StylizedBackgroundMode);
+    if (mode === 'image' || mode === 'video') {
+      if (mode === 'video' && this.backgroundVideo) {
+        // Re-upload only when the video presented a new frame (frame-rate decoupled)
+        const videoFrame = this.backgroundVideo.takeFrame();
+        if (videoFrame) this.uploadBackground(videoFrame);
+      }
+      this.fitBackground();
+      return this.matchBackgroundColor();
+    }
+    return this.backgroundTexture; // Color via uniform (unused when transparent)
+  }
+
+  /**
+   * Composite, light wrap and front overlays for the current mode, crop and
+   * mirror over an already generated background. Only the main output drives
+   * the background crossfade.
+   */
+  private renderOutput(
+    shared: SharedStages,
+    view: OutputView,
+    backgroundTex: WebGLTexture,
+    isMain: boolean,
+  ): void {
+    const gl = this.gl;
+    const { width, height } = this.opts;
+    const imageBackground = view.backgroundMode === 'image' || view.backgroundMode === 'video';
+
+    // Remember this frame's background in case the next change crossfades from it
+    // (transparent has no background to fade from)
+    let transition = 1;
+    if (isMain) {
+      this.lastBackgroundTex = view.backgroundMode === 'transparent' ? null : backgroundTex;
+      this.lastBackgroundIsColor = view.backgroundMode === 'color';
+      transition = this.transitionProgress();
+    }
+
+    // --- Stage 4: Compositing (with color decontamination) ---
+    // No light wrap when transparent — there is no background to spill
+    const transparent = view.backgroundMode === 'transparent';
+    const lightWrap = this.opts.lightWrap && !transparent;
+    const compositeTarget = lightWrap ? this.compositeFBO : null;
+    const renderComposite = compositeTarget
+      ? (setup: () => void) => this.renderToFBO(compositeTarget, this.compositeProg, setup)
+      : (setup: () => void) => this.renderToScreen(this.compositeProg, setup, view);
+
+    const crop = this.opts.backgroundFixed && view.crop
+      ? view.crop : { x: 0, y: 0, w: 1, h: 1 };
+    const depthBlur = this.opts.depthBlur && view.backgroundMode === 'blur';
+
+    // Drop shadow was generated once for every output that replaces the background
+    const dropShadow = this.opts.dropShadow && (imageBackground || view.backgroundMode === 'color');
+    // Offset is constant on screen: scaled into camera UV when the background is fixed under a crop
+    const shadowAngle = this.opts.shadowAngle * Math.PI / 180;
+    const shadowX = Math.cos(shadowAngle) * this.opts.shadowDistance * (height / width) * crop.w;
+    const shadowY = -Math.sin(shadowAngle) * this.opts.shadowDistance * crop.h; // UV y runs up
+
+    renderComposite(() => {
+      this.bindTexture(0, shared.camera, 'u_camera');
+      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask'); // eroded mask
+      this.bindTexture(2, backgroundTex, 'u_background');
+      gl.uniform1i(
+        this.compositeProg.uniforms['u_backgroundMode'],
+        view.backgroundMode === 'blur' || view.backgroundMode === 'bokeh' ? 0 :
+        view.backgroundMode === 'color' ? 2 :
+        transparent ? 3 : 1,
+      );
+      const [r, g, b] = this.hexToRgb(this.opts.backgroundColor);
+      gl.uniform3f(this.compositeProg.uniforms['u_backgroundColor'], r, g, b);
+      gl.uniform2f(this.compositeProg.uniforms['u_texelSize'], 1.0 / width, 1.0 / height);
+      gl.uniform2f(this.compositeProg.uniforms['u_cropOffset'], crop.x, crop.y);
+      gl.uniform2f(this.compositeProg.uniforms['u_cropSize'], crop.w, crop.h);
+      gl.uniform1f(this.compositeProg.uniforms['u_depthBlur'], depthBlur ? 1.0 : 0.0);
+      gl.uniform3f(this.compositeProg.uniforms['u_fgGain'], shared.fgGain[0], shared.fgGain[1], shared.fgGain[2]);
+      gl.uniform1f(this.compositeProg.uniforms['u_transition'], transition);
+      if (transition < 1) this.bindTexture(5, this.prevBackgroundFBO!.texture, 'u_prevBackground');
+      const [kr, kg, kb] = this.hexToRgb(this.opts.chromaKeyColor);
+      gl.uniform3f(this.compositeProg.uniforms['u_keyColor'], kr, kg, kb);
+      gl.uniform1f(this.compositeProg.uniforms['u_spill'],
+        this.opts.segmentationSource === 'model' ? 0.0 : this.opts.chromaKeySpill);
+      gl.uniform1f(this.compositeProg.uniforms['u_hasBehindOverlay'], this.hasBehindOverlays ? 1.0 : 0.0);
+      if (this.hasBehindOverlays) this.bindTexture(6, this.behindOverlayFBO!.texture, 'u_behindOverlay');
+      gl.uniform1f(this.compositeProg.uniforms['u_effect'], view.effect);
+      gl.uniform1f(this.compositeProg.uniforms['u_shadowOpacity'], dropShadow ? this.opts.shadowOpacity : 0.0);
+      if (dropShadow) {
+        this.bindTexture(7, this.shadowFBO2!.texture, 'u_shadow');
+        gl.uniform2f(this.compositeProg.uniforms['u_shadowOffset'], shadowX, shadowY);
+      }
+      if (depthBlur) {
+        this.bindTexture(3, this.blurNearFBO.texture, 'u_backgroundNear');
+        this.bindTexture(4, this.depthFBO.texture, 'u_depth');
+      }
+    });
+
+    // --- Stage 5: Light Wrap (subtle BG light spill on edges) ---
+    if (lightWrap) {
+      this.renderToScreen(this.lightWrapProg, () => {
+        this.bindTexture(0, this.compositeFBO.texture, 'u_composite');
+        this.bindTexture(1, backgroundTex, 'u_background');
+        this.bindTexture(2, this.featherFBO.texture, 'u_mask');
+        gl.uniform1f(this.lightWrapProg.uniforms['u_wrapStrength'], 0.06);
+      }, view);
+    }
+
+    // --- Stage 6: Front overlays (output space, after the auto-frame crop) ---
+    if (this.hasFrontOverlays) this.drawFrontOverlays(view);
+  }
+
+  /**
+   * Gaussian background blur at half resolution.
+   * With maskAwareBlur the subject is weighted out of the source (normalized
+   * convolution), so its colors don't bleed into the blurred background as a halo.
+   * Returns the blurred background texture.
+   */
+  private generateBlurredBackground(): WebGLTexture {
     const gl = this.gl;
     const blurW = this.blurFBO1.width;
     const blurH = this.blurFBO1.height;
+    const source = this.prepareBlurSource();
+
+    // Depth-graded blur: one light pair for the background right beside the subject
+    if (this.opts.depthBlur) {
+      this.renderToFBO(this.blurFBO1, this.blurProg, () => {
+        this.bindTexture(0, source, 'u_source');
+        gl.uniform2f(this.blurProg.uniforms['u_direction'], 1.0 / blurW, 0.0);
+        gl.uniform1f(this.blurProg.uniforms['u_radius'], this.opts.blurRadius * 0.15);
+      });
+      if (this.opts.maskAwareBlur) {
+        this.renderToFBO(this.blurFBO2, this.blurProg, () => {
+          this.bindTexture(0, this.blurFBO1.texture, 'u_source');
+          gl.uniform2f(this.blurProg.uniforms['u_direction'], 0.0, 1.0 / blurH);
+          gl.uniform1f(this.blurProg.uniforms['u_radius'], this.opts.blurRadius * 0.15);
+        });
+        this.normalizeBlur(this.blurFBO2, this.blurNearFBO);
+      } else {
+        this.renderToFBO(this.blurNearFBO, this.blurProg, () => {
+          this.bindTexture(0, this.blurFBO1.texture, 'u_source');
+          gl.uniform2f(this.blurProg.uniforms['u_direction'], 0.0, 1.0 / blurH);
+          gl.uniform1f(this.blurProg.uniforms['u_radius'], this.opts.blurRadius * 0.15);
+        });
+      }
+    }
 
-    // Pass 1: Horizontal blur (camera → blurFBO1)
+    // Pass 1: Horizontal blur (source → blurFBO1)
     this.renderToFBO(this.blurFBO1, this.blurProg, () => {
-      this.bindTexture(0, this.cameraTexture, 'u_source');
+      this.bindTexture(0, source, 'u_source');
       gl.uniform2f(this.blurProg.uniforms['u_direction'], 1.0 / blurW, 0.0);
       gl.uniform1f(this.blurProg.uniforms['u_radius'], this.opts.blurRadius);
     });
@@ -633,6 +1296,588 @@ export class PostProcessingPipeline {
         gl.uniform1f(this.blurProg.uniforms['u_radius'], this.opts.blurRadius * 0.7);
       });
     }
+
+    if (!this.opts.maskAwareBlur) return this.blurFBO2.texture;
+
+    // Divide out the accumulated background weight (blurFBO2 → blurFBO1)
+    this.normalizeBlur(this.blurFBO2, this.blurFBO1);
+    return this.blurFBO1.texture;
+  }
+
+  /**
+   * Blur source texture: the camera frame, or with maskAwareBlur the camera
+   * premultiplied by background weight (1 - mask) at half resolution.
+   */
+  private prepareBlurSource(): WebGLTexture {
+    if (!this.opts.maskAwareBlur) return this.cameraTexture;
+
+    this.renderToFBO(this.maskedSourceFBO, this.blurWeightProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_camera');
+      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask');
+    });
+    return this.maskedSourceFBO.texture;
+  }
+
+  private normalizeBlur(src: Framebuffer, dst: Framebuffer): void {
+    this.renderToFBO(dst, this.blurNormalizeProg, () => {
+      this.bindTexture(0, src.texture, 'u_source');
+    });
+  }
+
+  /**
+   * Subject-only skin smoothing. Returns the camera texture the composite should
+   * use: the touched-up frame when beautyStrength > 0, the raw camera otherwise.
+   */
+  private applyBeauty(): WebGLTexture {
+    const strength = this.opts.beautyStrength;
+    if (strength <= 0) return this.cameraTexture;
+
+    const gl = this.gl;
+    const { width, height } = this.opts;
+    if (!this.beautyFBO) this.beautyFBO = this.createFramebuffer(width, height);
+    const target = this.beautyFBO;
+    this.renderToFBO(target, this.beautyProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_camera');
+      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask');
+      gl.uniform2f(this.beautyProg.uniforms['u_texelSize'], 1.0 / width, 1.0 / height);
+      // Tuned at 720p — keep the same facial footprint at other resolutions
+      gl.uniform1f(this.beautyProg.uniforms['u_radiusScale'], Math.max(1.0, height / 720));
+      gl.uniform1f(this.beautyProg.uniforms['u_strength'], Math.min(1, strength));
+    });
+    return target.texture;
+  }
+
+  /**
+   * Stylized background (grayscale, dim, pixelate, posterize) from the camera frame.
+   * Renders into backgroundFBO — the image/video fit is unused in these modes and
+   * is marked stale so it re-renders when switching back.
+   */
+  private generateStylizedBackground(mode: StylizedBackgroundMode): WebGLTexture {
+    const gl = this.gl;
+    const { width, height } = this.opts;
+    const block = Math.max(1, this.opts.pixelateBlockSize);
+
+    this.renderToFBO(this.backgroundFBO, this.stylizeProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_source');
+      gl.uniform1i(this.stylizeProg.uniforms['u_style'], STYLE_INDEX[mode]);
+      gl.uniform1f(this.stylizeProg.uniforms['u_dimAmount'], this.opts.dimAmount);
+      gl.uniform2f(this.stylizeProg.uniforms['u_blockSize'], block / width, block / height);
+      gl.uniform1f(this.stylizeProg.uniforms['u_levels'], this.opts.posterizeLevels);
+    });
+    this.backgroundDirty = true;
+    return this.backgroundFBO.texture;
+  }
+
+  /**
+   * Distance transform of the processed mask (jump flooding at mask resolution),
+   * mapped to a 0-1 blur amount through depthBlurRange and depthBlurFalloff.
+   */
+  private generateDepthMap(): void {
+    const gl = this.gl;
+    const { maskWidth, maskHeight } = this.opts;
+    const aspect = this.opts.width / this.opts.height;
+
+    this.renderToFBO(this.distanceFBO1, this.distanceSeedProg, () => {
+      this.bindTexture(0, this.bilateralFBO.texture, 'u_mask');
+    });
+
+    let src = this.distanceFBO1;
+    let dst = this.distanceFBO2;
+    // Start at half the next power of two — the first jump reaches across the whole mask
+    let step = 1 << (Math.ceil(Math.log2(Math.max(maskWidth, maskHeight))) - 1);
+    for (; step >= 1; step >>= 1) {
+      const source = src;
+      this.renderToFBO(dst, this.jumpFloodProg, () => {
+        this.bindTexture(0, source.texture, 'u_seeds');
+        gl.uniform2f(this.jumpFloodProg.uniforms['u_step'], step / maskWidth, step / maskHeight);
+        gl.uniform1f(this.jumpFloodProg.uniforms['u_aspect'], aspect);
+      });
+      [src, dst] = [dst, src];
+    }
+
+    const seeds = src;
+    this.renderToFBO(this.depthFBO, this.depthProg, () => {
+      this.bindTexture(0, seeds.texture, 'u_seeds');
+      gl.uniform1f(this.depthProg.uniforms['u_aspect'], aspect);
+      gl.uniform1f(this.depthProg.uniforms['u_range'], this.opts.depthBlurRange);
+      gl.uniform1f(this.depthProg.uniforms['u_falloff'], this.opts.depthBlurFalloff);
+    });
+  }
+
+  /**
+   * Lens-style background blur at the same half-res FBOs as the Gaussian path:
+   * a wide disc gather with highlight bloom, then a narrow disc to smooth the
+   * sampling pattern. Disc radius tracks blurRadius so adaptive tiers scale it too.
+   */
+  private generateBokehBackground(): void {
+    const gl = this.gl;
+    const texelW = 1.0 / this.blurFBO1.width;
+    const texelH = 1.0 / this.blurFBO1.height;
+
+    const source = this.prepareBlurSource();
+
+    // Pass 1: Wide disc + highlight bloom (source → blurFBO1)
+    this.renderToFBO(this.blurFBO1, this.bokehProg, () => {
+      this.bindTexture(0, source, 'u_source');
+      gl.uniform2f(this.bokehProg.uniforms['u_texelSize'], texelW, texelH);
+      gl.uniform1f(this.bokehProg.uniforms['u_radius'], this.opts.blurRadius * 3.0);
+      gl.uniform1f(this.bokehProg.uniforms['u_highlightThreshold'], 0.75);
+      gl.uniform1f(this.bokehProg.uniforms['u_highlightGain'], 12.0);
+    });
+
+    // Pass 2: Narrow disc, no bloom (blurFBO1 → blurFBO2)
+    this.renderToFBO(this.blurFBO2, this.bokehProg, () => {
+      this.bindTexture(0, this.blurFBO1.texture, 'u_source');
+      gl.uniform2f(this.bokehProg.uniforms['u_texelSize'], texelW, texelH);
+      gl.uniform1f(this.bokehProg.uniforms['u_radius'], this.opts.blurRadius * 0.75);
+      gl.uniform1f(this.bokehProg.uniforms['u_highlightThreshold'], 0.75);
+      gl.uniform1f(this.bokehProg.uniforms['u_highlightGain'], 0.0);
+    });
+  }
+
+  /** Bind class masks for the feather stage (inert without them) */
+  private setClassUniforms(): void {
+    const gl = this.gl;
+    this.bindTexture(1, this.classTexture, 'u_classes');
+    gl.uniform1f(this.featherProg.uniforms['u_hasClasses'], this.hasClasses ? 1.0 : 0.0);
+    gl.uniform1f(this.featherProg.uniforms['u_hairSoftness'], Math.max(1, this.opts.hairSoftness));
+    gl.uniform1f(this.featherProg.uniforms['u_clothesHardness'], this.opts.clothesEdgeHardness);
+  }
+
+  /**
+   * Upload a camera frame. A VideoFrame with padding (visibleRect smaller than
+   * the coded size, e.g. 1920x1088 coded for 1080p) uploads only its visible
+   * rect, so padding never shows up as garbage at the edges. Limited-range
+   * input is expanded into cameraRangeFBO, which then stands in for the camera
+   * texture in every later stage.
+   */
+  private uploadCamera(cameraFrame: TexImageSource): void {
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.cameraUploadTexture);
+    const visible = getPaddedVisibleRect(cameraFrame);
+    if (visible) {
+      gl.pixelStorei(gl.UNPACK_SKIP_PIXELS, visible.x);
+      gl.pixelStorei(gl.UNPACK_SKIP_ROWS, visible.y);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, visible.width, visible.height, 0,
+        gl.RGBA, gl.UNSIGNED_BYTE, cameraFrame);
+      gl.pixelStorei(gl.UNPACK_SKIP_PIXELS, 0);
+      gl.pixelStorei(gl.UNPACK_SKIP_ROWS, 0);
+    } else {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, cameraFrame);
+    }
+
+    if (this.opts.inputColorRange !== 'limited') {
+      this.cameraTexture = this.cameraUploadTexture;
+      return;
+    }
+    if (!this.cameraRangeFBO) this.cameraRangeFBO = this.createFramebuffer(this.opts.width, this.opts.height);
+    this.renderToFBO(this.cameraRangeFBO, this.rangeExpandProg, () => {
+      this.bindTexture(0, this.cameraUploadTexture, 'u_source');
+    });
+    this.cameraTexture = this.cameraRangeFBO.texture;
+  }
+
+  /**
+   * Blur the processed mask into shadowFBO2 at mask resolution. The offset is
+   * applied when the composite samples it, so only the blur runs here.
+   */
+  private generateShadow(): void {
+    const gl = this.gl;
+    const { maskWidth, maskHeight } = this.opts;
+    // Blur kernel sigma ≈ 4 steps → softness (frame heights) in mask texels / 4
+    const radius = Math.max(this.opts.shadowSoftness * maskHeight / 4, 0.25);
+    if (!this.shadowFBO1) this.shadowFBO1 = this.createFramebuffer(maskWidth, maskHeight);
+    if (!this.shadowFBO2) this.shadowFBO2 = this.createFramebuffer(maskWidth, maskHeight);
+    const ping = this.shadowFBO1;
+
+    this.renderToFBO(ping, this.blurProg, () => {
+      this.bindTexture(0, this.bilateralFBO.texture, 'u_source');
+      gl.uniform2f(this.blurProg.uniforms['u_direction'], 1.0 / maskWidth, 0.0);
+      gl.uniform1f(this.blurProg.uniforms['u_radius'], radius);
+    });
+    this.renderToFBO(this.shadowFBO2, this.blurProg, () => {
+      this.bindTexture(0, ping.texture, 'u_source');
+      gl.uniform2f(this.blurProg.uniforms['u_direction'], 0.0, 1.0 / maskHeight);
+      gl.uniform1f(this.blurProg.uniforms['u_radius'], radius);
+    });
+  }
+
+  /**
+   * Key the camera frame against chromaKeyColor into chromaMaskFBO (mask resolution).
+   * Hybrid mode intersects the key with the last uploaded model mask.
+   */
+  private renderChromaKey(): void {
+    const gl = this.gl;
+    const { maskWidth, maskHeight } = this.opts;
+    const [r, g, b] = this.hexToRgb(this.opts.chromaKeyColor);
+    this.renderToFBO(this.chromaMaskFBO, this.chromaKeyProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_camera');
+      this.bindTexture(1, this.maskTexture, 'u_modelMask');
+      gl.uniform2f(this.chromaKeyProg.uniforms['u_texelSize'], 1.0 / maskWidth, 1.0 / maskHeight);
+      gl.uniform3f(this.chromaKeyProg.uniforms['u_keyColor'], r, g, b);
+      gl.uniform1f(this.chromaKeyProg.uniforms['u_similarity'], this.opts.chromaKeySimilarity);
+      gl.uniform1f(this.chromaKeyProg.uniforms['u_smoothness'], Math.max(this.opts.chromaKeySmoothness, 1e-3));
+      gl.uniform1f(this.chromaKeyProg.uniforms['u_useModel'],
+        this.opts.segmentationSource === 'hybrid' ? 1.0 : 0.0);
+    });
+  }
+
+  /**
+   * Flatten overlays into the behind-subject and front layer textures. Each
+   * overlay is drawn with the viewport set to its rect, so the fullscreen quad
+   * lands exactly on it. The front layer is output-sized and laid out in output
+   * space, so overlays keep their shape under outputAspect / outputWidth.
+   * Only runs when overlays change; a layer's framebuffer exists only while
+   * it holds overlays.
+   */
+  private renderOverlayLayers(): void {
+    this.overlaysDirty = false;
+    const gl = this.gl;
+
+    this.hasBehindOverlays = false;
+    this.hasFrontOverlays = false;
+    this.overlays.forEach(overlay => {
+      if (overlay.layer === 'behind-subject') this.hasBehindOverlays = true;
+      else this.hasFrontOverlays = true;
+    });
+    this.releaseOverlayLayers(!this.hasBehindOverlays, !this.hasFrontOverlays);
+    if (this.hasBehindOverlays && !this.behindOverlayFBO) {
+      this.behindOverlayFBO = this.createFramebuffer(this.opts.width, this.opts.height);
+    }
+    if (this.hasFrontOverlays && !this.frontOverlayFBO) {
+      this.frontOverlayFBO = this.createFramebuffer(this.opts.outputWidth, this.opts.outputHeight);
+    }
+
+    gl.useProgram(this.overlayProg.program);
+    gl.bindVertexArray(this.quadVAO);
+    gl.uniform1f(this.overlayProg.uniforms['u_premultiplied'], 0.0);
+    gl.uniform1f(this.overlayProg.uniforms['u_over'], 0.0);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    for (const layer of ['behind-subject', 'front'] as const) {
+      const target = layer === 'front' ? this.frontOverlayFBO : this.behindOverlayFBO;
+      if (!target) continue;
+      const { width, height } = target;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+      gl.viewport(0, 0, width, height);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+
+      this.overlays.forEach(overlay => {
+        if (overlay.layer !== layer) return;
+        const { x, y, width: w, height: h } = overlay.rect;
+        // Rect is top-left origin; the viewport is bottom-left
+        gl.viewport(
+          Math.round(x * width), Math.round((1 - y - h) * height),
+          Math.round(w * width), Math.round(h * height),
+        );
+        this.bindTexture(0, overlay.texture, 'u_source');
+        gl.uniform1f(this.overlayProg.uniforms['u_opacity'], overlay.opacity);
+        gl.uniform1f(this.overlayProg.uniforms['u_flipY'], overlay.flipY ? 1.0 : 0.0);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      });
+    }
+
+    gl.disable(gl.BLEND);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  /** Free the overlay layers that no longer hold overlays (the front one with its copy texture) */
+  private releaseOverlayLayers(behind: boolean, front: boolean): void {
+    if (behind) this.behindOverlayFBO = this.releaseFramebuffer(this.behindOverlayFBO);
+    if (front) {
+      this.frontOverlayFBO = this.releaseFramebuffer(this.frontOverlayFBO);
+      if (this.overlayDestTexture) this.gl.deleteTexture(this.overlayDestTexture);
+      this.overlayDestTexture = null;
+    }
+  }
+
+  /**
+   * Blend the front overlay layer over the final output, faded with the effect.
+   * The canvas holds straight alpha: over an opaque output, premultiplied
+   * ONE / ONE_MINUS_SRC_ALPHA blending is exact, but over a transparent output
+   * the result must be un-premultiplied — the output is copied and the overlay
+   * composited over it in the shader.
+   */
+  private drawFrontOverlays(view: OutputView): void {
+    const gl = this.gl;
+    const { outputWidth, outputHeight } = this.opts;
+    const over = view.backgroundMode === 'transparent';
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, outputWidth, outputHeight);
+    if (over) {
+      if (!this.overlayDestTexture) {
+        // RGBA8 to match the canvas — copyTexSubImage2D can't copy it into a float texture
+        this.overlayDestTexture = this.createTexture();
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, outputWidth, outputHeight, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      }
+      gl.bindTexture(gl.TEXTURE_2D, this.overlayDestTexture);
+      gl.copyTexSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 0, 0, outputWidth, outputHeight);
+    }
+    gl.useProgram(this.overlayProg.program);
+    this.bindTexture(0, this.frontOverlayFBO!.texture, 'u_source');
+    if (over) this.bindTexture(1, this.overlayDestTexture!, 'u_destination');
+    gl.uniform1f(this.overlayProg.uniforms['u_opacity'], view.effect);
+    gl.uniform1f(this.overlayProg.uniforms['u_flipY'], 0.0);
+    gl.uniform1f(this.overlayProg.uniforms['u_premultiplied'], 1.0);
+    gl.uniform1f(this.overlayProg.uniforms['u_over'], over ? 1.0 : 0.0);
+    if (!over) {
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+    gl.bindVertexArray(this.quadVAO);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.disable(gl.BLEND);
+  }
+
+  /** Whether an options update replaces what the background shows */
+  private changesBackground(opts: Partial<PipelineOptions>): boolean {
+    const modeChanged = opts.backgroundMode !== undefined && opts.backgroundMode !== this.opts.backgroundMode;
+    const colorChanged = opts.backgroundColor !== undefined &&
+      opts.backgroundColor !== this.opts.backgroundColor && this.opts.backgroundMode === 'color';
+    return modeChanged || colorChanged || !!opts.backgroundImage || opts.backgroundVideo !== undefined;
+  }
+
+  /**
+   * Snapshot the last frame's background into prevBackgroundFBO and start the crossfade.
+   * A change during a running transition keeps the original snapshot and timing.
+   */
+  private beginBackgroundTransition(): void {
+    if (this.opts.backgroundTransitionMs <= 0 || this.isFirstFrame || !this.lastBackgroundTex) return;
+    if (this.effectAmount <= 0) return; // Nothing on screen to fade from
+    if (this.transitionStart >= 0) return;
+
+    const gl = this.gl;
+    const source = this.lastBackgroundTex;
+    const [r, g, b] = this.hexToRgb(this.opts.backgroundColor);
+    if (!this.prevBackgroundFBO) this.prevBackgroundFBO = this.createFramebuffer(this.opts.width, this.opts.height);
+    this.renderToFBO(this.prevBackgroundFBO, this.snapshotProg, () => {
+      this.bindTexture(0, source, 'u_background');
+      gl.uniform3f(this.snapshotProg.uniforms['u_color'], r, g, b);
+      gl.uniform1f(this.snapshotProg.uniforms['u_useColor'], this.lastBackgroundIsColor ? 1.0 : 0.0);
+    });
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.transitionStart = performance.now();
+  }
+
+  /**
+   * Eased crossfade progress: 0 = previous background, 1 = current (no transition).
+   * The snapshot is freed when the fade ends — background changes are rare.
+   */
+  private transitionProgress(): number {
+    if (this.transitionStart < 0) return 1;
+    const t = (performance.now() - this.transitionStart) / this.opts.backgroundTransitionMs;
+    if (t >= 1) {
+      this.transitionStart = -1;
+      this.prevBackgroundFBO = this.releaseFramebuffer(this.prevBackgroundFBO);
+      return 1;
+    }
+    return t * t * (3 - 2 * t);
+  }
+
+  /** Upload an image/video frame as the background source and mark the fit stale */
+  private uploadBackground(source: TexImageSource): void {
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.backgroundTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    this.backgroundSize = getSourceSize(source);
+    this.backgroundFlipY = typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap;
+    this.backgroundDirty = true;
+  }
+
+  /**
+   * Render the background source into backgroundFBO with the configured fit.
+   * Only runs when the source or fit settings changed — static images cost nothing per frame.
+   */
+  private fitBackground(): void {
+    if (!this.backgroundDirty) return;
+    this.backgroundDirty = false;
+
+    const gl = this.gl;
+    const { width, height, backgroundFit, backgroundFocalPoint } = this.opts;
+    const src = this.backgroundSize;
+
+    let scaleX = 1, scaleY = 1;
+    if (src.width > 0 && src.height > 0) {
+      const srcAspect = src.width / src.height;
+      // A fixed background fills the cropped output, whose aspect may differ from the camera's
+      const dstAspect = this.opts.backgroundFixed && this.cropRect
+        ? this.opts.outputWidth / this.opts.outputHeight
+        : width / height;
+      if (backgroundFit === 'cover') {
+        // Crop the overflowing axis
+        if (srcAspect > dstAspect) scaleX = dstAspect / srcAspect;
+        else scaleY = srcAspect / dstAspect;
+      } else if (backgroundFit === 'contain') {
+        // Extend the short axis past [0,1] — sampled outside the source → letterbox
+        if (srcAspect > dstAspect) scaleY = srcAspect / dstAspect;
+        else scaleX = dstAspect / srcAspect;
+      } else if (backgroundFit === 'tile') {
+        // One source pixel per frame pixel
+        scaleX = width / src.width;
+        scaleY = height / src.height;
+      }
+    }
+
+    // Focal point is top-left origin; texture V runs bottom-up (UNPACK_FLIP_Y)
+    let offsetX = (1 - scaleX) * backgroundFocalPoint.x;
+    let offsetY = (1 - scaleY) * (1 - backgroundFocalPoint.y);
+    if (backgroundFit === 'tile') {
+      // Anchor the first tile at the top-left corner
+      offsetX = 0;
+      offsetY = Math.ceil(scaleY) - scaleY;
+    }
+    if (this.backgroundFlipY) {
+      offsetY = 1 - offsetY;
+      scaleY = -scaleY;
+    }
+
+    this.renderToFBO(this.backgroundFBO, this.fitProg, () => {
+      this.bindTexture(0, this.backgroundTexture, 'u_source');
+      gl.uniform2f(this.fitProg.uniforms['u_uvScale'], scaleX, scaleY);
+      gl.uniform2f(this.fitProg.uniforms['u_uvOffset'], offsetX, offsetY);
+      gl.uniform1f(this.fitProg.uniforms['u_tile'], backgroundFit === 'tile' ? 1.0 : 0.0);
+      const [r, g, b] = this.hexToRgb(this.opts.backgroundColor);
+      gl.uniform3f(this.fitProg.uniforms['u_fillColor'], r, g, b);
+    });
+  }
+
+  /**
+   * Color-match the fitted background to the subject's lighting.
+   * Returns the texture to composite with: the matched background once
+   * subject/background means are available, the fitted background otherwise.
+   */
+  private matchBackgroundColor(): WebGLTexture {
+    const strength = this.opts.colorMatchStrength;
+    if (strength <= 0 || !this.fgMeanColor || !this.bgMeanColor) return this.backgroundFBO.texture;
+
+    const gl = this.gl;
+    const fg = this.fgMeanColor;
+    const bg = this.bgMeanColor;
+    if (!this.colorMatchFBO) this.colorMatchFBO = this.createFramebuffer(this.opts.width, this.opts.height);
+    const target = this.colorMatchFBO;
+    this.renderToFBO(target, this.colorMatchProg, () => {
+      this.bindTexture(0, this.backgroundFBO.texture, 'u_background');
+      gl.uniform3f(this.colorMatchProg.uniforms['u_fgMeanColor'], fg[0], fg[1], fg[2]);
+      gl.uniform3f(this.colorMatchProg.uniforms['u_bgMeanColor'], bg[0], bg[1], bg[2]);
+      gl.uniform1f(this.colorMatchProg.uniforms['u_matchStrength'], strength);
+    });
+    return target.texture;
+  }
+
+  /** Whether the main output or any extra output shows one of these background modes */
+  private anyOutputUses(...modes: PipelineOutput['backgroundMode'][]): boolean {
+    if (modes.includes(this.opts.backgroundMode)) return true;
+    for (const output of this.outputs.values()) {
+      if (modes.includes(output.backgroundMode)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Free the framebuffers of optional stages that are switched off. They are
+   * allocated on first use, so a processor only holds full-frame targets for
+   * the features it actually runs.
+   */
+  private releaseDisabledStages(): void {
+    if (this.opts.colorMatchStrength <= 0 || !this.anyOutputUses('image', 'video')) {
+      this.colorMatchFBO = this.releaseFramebuffer(this.colorMatchFBO);
+    }
+    if (this.opts.beautyStrength <= 0) this.beautyFBO = this.releaseFramebuffer(this.beautyFBO);
+    if (this.opts.backgroundTransitionMs <= 0) {
+      this.transitionStart = -1;
+      this.prevBackgroundFBO = this.releaseFramebuffer(this.prevBackgroundFBO);
+    }
+    if (!this.opts.dropShadow) {
+      this.shadowFBO1 = this.releaseFramebuffer(this.shadowFBO1);
+      this.shadowFBO2 = this.releaseFramebuffer(this.shadowFBO2);
+    }
+    if (this.opts.inputColorRange !== 'limited' && this.cameraRangeFBO) {
+      this.cameraRangeFBO = this.releaseFramebuffer(this.cameraRangeFBO);
+      this.cameraTexture = this.cameraUploadTexture;
+    }
+  }
+
+  /**
+   * Collect a finished statistics readback (if any) and periodically kick off a new one.
+   * The 2x1 reduction result is copied into a PBO guarded by a fence, so the CPU
+   * never waits on the GPU — means lag by a frame or two, which the EMA hides anyway.
+   */
+  private updateColorStats(): void {
+    const gl = this.gl;
+
+    if (this.colorStatsSync) {
+      const status = gl.clientWaitSync(this.colorStatsSync, 0, 0);
+      if (status === gl.TIMEOUT_EXPIRED) return; // Still in flight
+      gl.deleteSync(this.colorStatsSync);
+      this.colorStatsSync = null;
+
+      if (status !== gl.WAIT_FAILED) {
+        const px = this.colorStatsReadback;
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.colorStatsPBO);
+        gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, px);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+        // Only trust the subject mean when enough of the frame is subject
+        if (px[3] > 0.01) {
+          this.fgMeanColor = this.smoothColor(this.fgMeanColor, px[0], px[1], px[2]);
+          this.bgMeanColor = this.smoothColor(this.bgMeanColor, px[4], px[5], px[6]);
+        }
+      }
+    }
+
+    if (this.colorStatsFrame++ % COLOR_STATS_INTERVAL !== 0) return;
+
+    this.renderToFBO(this.colorStatsFBO, this.colorStatsProg, () => {
+      this.bindTexture(0, this.cameraTexture, 'u_camera');
+      this.bindTexture(1, this.bilateralFBO.texture, 'u_mask');
+      this.bindTexture(2, this.backgroundFBO.texture, 'u_background');
+    });
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.colorStatsPBO);
+    gl.readPixels(0, 0, 2, 1, gl.RGBA, gl.FLOAT, 0);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.colorStatsSync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+  }
+
+  /**
+   * Low-light exposure/white-balance gain for the subject, from its smoothed mean
+   * color. Exposure only brightens (up to lowLightMaxGain); white balance nudges
+   * the subject toward neutral within LOW_LIGHT_WB_RANGE. Returns (1,1,1) when off.
+   */
+  private updateLowLightGain(): [number, number, number] {
+    if (!this.opts.lowLight || !this.fgMeanColor) {
+      this.lowLightGain = null;
+      return [1, 1, 1];
+    }
+
+    const [r, g, b] = this.fgMeanColor;
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    const exposure = Math.min(this.opts.lowLightMaxGain,
+      Math.max(1, LOW_LIGHT_TARGET_LUMA / Math.max(luma, 0.01)));
+    const [wbMin, wbMax] = LOW_LIGHT_WB_RANGE;
+    const strength = Math.max(0, Math.min(1, this.opts.lowLightStrength));
+    const target = [r, g, b].map(c => {
+      const wb = Math.max(wbMin, Math.min(wbMax, luma / Math.max(c, 0.01)));
+      return 1 + (exposure * wb - 1) * strength;
+    });
+
+    this.lowLightGain = this.smoothColor(this.lowLightGain, target[0], target[1], target[2]);
+    return this.lowLightGain;
+  }
+
+  private smoothColor(
+    prev: [number, number, number] | null,
+    r: number, g: number, b: number,
+  ): [number, number, number] {
+    if (!prev) return [r, g, b]; // First sample: seed directly
+    const a = COLOR_STATS_SMOOTHING;
+    return [
+      prev[0] + (r - prev[0]) * a,
+      prev[1] + (g - prev[1]) * a,
+      prev[2] + (b - prev[2]) * a,
+    ];
   }
 
   private renderToFBO(fbo: Framebuffer, prog: ShaderProgram, setupUniforms: () => void): void {
@@ -645,25 +1890,32 @@ export class PostProcessingPipeline {
     gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
   }
 
-  private renderToScreen(prog: ShaderProgram, setupUniforms: () => void): void {
-    if (this.cropRect) {
-      // Auto-frame active: render to preCropFBO, then crop to screen
+  private renderToScreen(
+    prog: ShaderProgram,
+    setupUniforms: () => void,
+    view: Pick<OutputView, 'crop' | 'mirror'> = this.mainView(),
+  ): void {
+    if (view.crop || view.mirror) {
+      // Auto-frame or mirror active: render to preCropFBO, then crop to screen
       this.renderToFBO(this.preCropFBO, prog, setupUniforms);
       const gl = this.gl;
-      const c = this.cropRect;
+      const c = view.crop ?? { x: 0, y: 0, w: 1, h: 1 };
+      // Mirror by sampling the crop right to left
+      const x = view.mirror ? c.x + c.w : c.x;
+      const w = view.mirror ? -c.w : c.w;
       gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-      gl.viewport(0, 0, this.opts.width, this.opts.height);
+      gl.viewport(0, 0, this.opts.outputWidth, this.opts.outputHeight);
       gl.useProgram(this.cropProg.program);
       this.bindTexture(0, this.preCropFBO.texture, 'u_source');
-      gl.uniform2f(this.cropProg.uniforms['u_cropOffset'], c.x, c.y);
-      gl.uniform2f(this.cropProg.uniforms['u_cropSize'], c.w, c.h);
+      gl.uniform2f(this.cropProg.uniforms['u_cropOffset'], x, c.y);
+      gl.uniform2f(this.cropProg.uniforms['u_cropSize'], w, c.h);
       gl.bindVertexArray(this.quadVAO);
       gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
     } else {
       // No crop: render directly to screen
       const gl = this.gl;
       gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-      gl.viewport(0, 0, this.opts.width, this.opts.height);
+      gl.viewport(0, 0, this.opts.outputWidth, this.opts.outputHeight);
       gl.useProgram(prog.program);
       setupUniforms();
       gl.bindVertexArray(this.quadVAO);
@@ -755,6 +2007,15 @@ export class PostProcessingPipeline {
     return { fbo, texture, width, height };
   }
 
+  /** Delete an optional stage's framebuffer; returns null to clear the field */
+  private releaseFramebuffer(fbo: Framebuffer | null): null {
+    if (fbo) {
+      this.gl.deleteFramebuffer(fbo.fbo);
+      this.gl.deleteTexture(fbo.texture);
+    }
+    return null;
+  }
+
   private createTexture(): WebGLTexture {
     const gl = this.gl;
     const tex = gl.createTexture()!;
@@ -829,3 +2090,27 @@ export class PostProcessingPipeline {
     ];
   }
 }
+
+/** Visible rect of a VideoFrame whose coded size carries padding; null for everything else */
+function getPaddedVisibleRect(source: TexImageSource): DOMRectReadOnly | null {
+  if (typeof VideoFrame === 'undefined' || !(source instanceof VideoFrame)) return null;
+  const rect = source.visibleRect;
+  if (!rect) return null;
+  const padded = rect.x !== 0 || rect.y !== 0 || rect.width !== source.codedWidth || rect.height !== source.codedHeight;
+  return padded ? rect : null;
+}
+
+/** Intrinsic pixel size of a texture upload source */
+function getSourceSize(source: TexImageSource): { width: number; height: number } {
+  // Property checks instead of instanceof — element classes don't exist in workers
+  if ('naturalWidth' in source) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if ('videoWidth' in source) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if ('displayWidth' in source) {
+    return { width: source.displayWidth, height: source.displayHeight };
+  }
+  return { width: source.width, height: source.height };
+}
@@ -26,13 +26,47 @@
  * 5. Background blur at half resolution with multi-pass Gaussian
  */
 
-import { PostProcessingPipeline, type PipelineOptions } from './pipeline';
+import {
+  PostProcessingPipeline,
+  type PipelineOptions,
+  type BackgroundFit,
+  type OverlayOptions,
+  type SegmentationSource,
+  type ColorRange,
+} from './pipeline';
 import { SegmentationModel, type ModelConfig } from './model';
+import type { SegmentationBackend, ClassMasks } from './backend';
 import { AdaptiveQualityController, type AdaptiveConfig, type QualityLevel } from './adaptive';
-import { AutoFramer, type AutoFrameConfig, type CropRect } from './autoframe';
+import { AutoFramer, parseAspect, resolveOutputSize, type AutoFrameConfig, type CropRect } from './autoframe';
 import { ModelWorkerClient } from './model-worker';
+import { FramePacer } from './pacer';
+import { PersonTracker, type PersonPolicy, type TrackedPerson } from './people';
+import { checkBackgroundVideo, type BackgroundVideoInput, type BackgroundVideoResult } from './background-video';
+import { loadBackgroundSource, type BackgroundSource, type BackgroundLoadResult } from './background-source';
 
-export type BackgroundMode = 'blur' | 'image' | 'color' | 'none';
+export type BackgroundMode = PipelineOptions['backgroundMode'] | 'none';
+
+/** Render settings for an extra output track (see createOutput) */
+export interface OutputOptions {
+  /** Background mode for this output; 'none' = unprocessed camera (default: follows the processor) */
+  backgroundMode?: BackgroundMode;
+  /** Mirror horizontally, e.g. for a self-view preview (default: false) */
+  mirror?: boolean;
+  /**
+   * 'auto' follows the subject with this output's own auto-framer, 'none' keeps
+   * the full frame, or a fixed rect as fractions of the frame (default: 'none')
+   */
+  crop?: 'auto' | 'none' | { x: number; y: number; width: number; height: number };
+  /** Auto-framing settings when crop is 'auto' */
+  autoFrame?: AutoFrameConfig;
+}
+
+interface ExtraOutput {
+  options: OutputOptions;
+  track: MediaStreamTrack;
+  framer: AutoFramer | null;
+  sink: (output: OffscreenCanvas) => void;
+}
 
 // === Diagnostics types ===
 
@@ -86,6 +120,8 @@ export interface DiagnosticSummary {
   bboxAtEdgeCount: number;
   maskEmptyCount: number;
   webglContextLost: boolean;
+  /** Per-channel gain applied to the subject by low-light enhancement (null when off) */
+  lowLightGain: [number, number, number] | null;
   /** Base64 JPEG of processed output (only when diagnosticsIncludeImage is true) */
   image: string | null;
   /** Debug log messages accumulated during this interval */
@@ -138,16 +174,85 @@ export interface SegmentationProcessorOptions {
   backgroundMode?: BackgroundMode;
   /** Background blur radius (default: 12) */
   blurRadius?: number;
+  /** Grade blur by distance from the subject, like depth of field (default: false) */
+  depthBlur?: boolean;
+  /** Distance from the silhouette, in frame heights, where blur reaches full strength (default: 0.5) */
+  depthBlurRange?: number;
+  /** Depth blur falloff exponent: 1 = linear, >1 = nearby background stays sharper longer (default: 1.5) */
+  depthBlurFalloff?: number;
+  /** Keep the subject's colors out of the blurred background — no halo around the silhouette (default: true) */
+  maskAwareBlur?: boolean;
+  /** Soft drop shadow of the subject on image/video/color backgrounds (default: false) */
+  dropShadow?: boolean;
+  /** Shadow direction in degrees: 0 = right, 90 = down (default: 45) */
+  shadowAngle?: number;
+  /** Shadow offset in frame heights (default: 0.03) */
+  shadowDistance?: number;
+  /** Shadow blur in frame heights (default: 0.04) */
+  shadowSoftness?: number;
+  /** Shadow darkness, 0-1 (default: 0.35) */
+  shadowOpacity?: number;
+  /** Subject-only skin smoothing ("touch up my appearance"), 0-1 (default: 0 = off) */
+  beautyStrength?: number;
+  /** Brighten and white-balance the subject in dim rooms (default: false) */
+  lowLightEnhancement?: boolean;
+  /** Low-light correction strength, 0-1 (default: 0.7) */
+  lowLightStrength?: number;
+  /** Maximum low-light exposure gain (default: 2.0) */
+  lowLightMaxGain?: number;
+  /** Brightness reduction for 'dim' mode, 0-1 (default: 0.6) */
+  dimAmount?: number;
+  /** Block size in output pixels for 'pixelate' mode (default: 24) */
+  pixelateBlockSize?: number;
+  /** Levels per color channel for 'posterize' mode (default: 4) */
+  posterizeLevels?: number;
   /** Background color hex (default: '#00FF00') */
   backgroundColor?: string;
-  /** Background image element */
-  backgroundImage?: HTMLImageElement | null;
+  /** Background image — element, ImageBitmap, canvas or any other texture source */
+  backgroundImage?: TexImageSource | null;
+  /** Background video — looping element or live track (used when mode = 'video') */
+  backgroundVideo?: BackgroundVideoInput | null;
+  /** How image/video backgrounds fit the frame: 'cover' | 'contain' | 'fill' | 'tile' (default: 'cover') */
+  backgroundFit?: BackgroundFit;
+  /** Normalized background point kept in view when cropped, top-left origin (default: { x: 0.5, y: 0.5 }) */
+  backgroundFocalPoint?: { x: number; y: number };
+  /** Tint image/video backgrounds toward the subject's lighting, 0 = off (default: 0.2) */
+  colorMatchStrength?: number;
+  /** Crossfade duration when the background mode, image, video or color changes, 0 = hard cut (default: 300) */
+  backgroundTransitionMs?: number;
+  /** Fade duration when toggling the effect on/off via 'none', 0 = hard cut (default: 300) */
+  toggleTransitionMs?: number;
   /** Target model FPS — model runs at this rate, display interpolates (default: 15) */
   modelFps?: number;
-  /** Target output FPS (default: 30) */
+  /**
+   * Target output FPS, paced on frame timestamps: faster cameras are dropped to
+   * this rate before processing, slower ones repeat frames. 0 = camera rate (default: 30)
+   */
   outputFps?: number;
+  /**
+   * Output width in pixels, independent of the camera (default: camera width).
+   * With only one of outputWidth/outputHeight set, the other follows the output aspect.
+   */
+  outputWidth?: number;
+  /** Output height in pixels (default: camera height) */
+  outputHeight?: number;
+  /**
+   * Output aspect ratio, e.g. '9:16', '1:1', '4:5' or a number (width / height).
+   * The auto-framer crops to this shape around the subject — vertical and square
+   * formats from a landscape camera. Without outputWidth/outputHeight the output
+   * is the largest frame of this aspect inside the camera; with both set at a
+   * different ratio, outputHeight is derived from outputWidth with a warning
+   * (default: camera aspect).
+   */
+  outputAspect?: string | number;
   /** Model configuration overrides */
   modelConfig?: ModelConfig;
+  /**
+   * Custom inference backend (ONNX Runtime Web, TF.js, an in-house model) in place
+   * of MediaPipe. Its input size sets the mask resolution; runs on the main
+   * thread, so useWorker is ignored (default: null = MediaPipe)
+   */
+  backend?: SegmentationBackend | null;
   /** Pipeline quality presets */
   quality?: 'low' | 'medium' | 'high' | 'ultra';
   /** Enable performance metrics logging */
@@ -156,12 +261,50 @@ export interface SegmentationProcessorOptions {
   adaptive?: boolean;
   /** Adaptive quality configuration overrides */
   adaptiveConfig?: AdaptiveConfig;
-  /** Auto-framing configuration */
+  /**
+   * Auto-framing configuration. Framing follows the model mask, so it is
+   * rejected with a warning while segmentationSource is 'chroma' (no model runs).
+   */
   autoFrame?: AutoFrameConfig;
   /** Run model inference in a Web Worker (frees main thread, default: false) */
   useWorker?: boolean;
   /** Keep background fixed in screen space during auto-frame (default: false) */
   backgroundFixed?: boolean;
+  /**
+   * With multiclass masks (modelConfig.multiclass): feather radius multiplier
+   * on hair for a softer, wider transition (default: 2.0, 1 = off)
+   */
+  hairSoftness?: number;
+  /** With multiclass masks: how hard clothes edges are, 0-1 (default: 0.6) */
+  clothesEdgeHardness?: number;
+  /**
+   * Who stays in the output with several people in frame: 'all', the 'largest',
+   * the most 'central', or the one picked with selectPerson() ('selected').
+   * Dropped people are removed from the mask, the ROI crop and auto-framing.
+   * (default: 'all')
+   */
+  personPolicy?: PersonPolicy;
+  /**
+   * Range of the camera's pixel values. 'auto' reads each VideoFrame's colorSpace
+   * and expands RGB frames tagged limited range (YUV frames are converted on
+   * upload). Force 'limited' for webcams that send 16-235 without tagging it
+   * (washed-out blacks), 'full' for ones mistagged as limited (crushed blacks).
+   * (default: 'auto')
+   */
+  inputColorRange?: 'auto' | ColorRange;
+  /**
+   * Mask source: 'model', 'chroma' (physical green screen, no model) or 'hybrid'.
+   * 'chroma' turns auto-framing off — it needs the model mask (default: 'model')
+   */
+  segmentationSource?: SegmentationSource;
+  /** Green screen color for chroma/hybrid, hex (default: '#00FF00') */
+  chromaKeyColor?: string;
+  /** CbCr distance from the key color that is keyed out fully (default: 0.4) */
+  chromaKeySimilarity?: number;
+  /** Soft edge width above the similarity threshold (default: 0.08) */
+  chromaKeySmoothness?: number;
+  /** Key-color spill suppression on the subject, 0-1 (default: 0.5) */
+  chromaKeySpill?: number;
   /** Diagnostics callback — receives periodic summary and init events */
   onDiagnostic?: (event: DiagnosticEvent) => void;
   /** Diagnostics level: 'off' or 'summary' (default: 'off') */
@@ -184,6 +327,8 @@ const QUALITY_PRESETS = {
     lightWrap: false,
     morphology: false,
     blurRadius: 8,
+    bokeh: false,
+    beauty: false,
     modelWidth: 160,
     modelHeight: 160,
     modelFps: 10,
@@ -196,6 +341,8 @@ const QUALITY_PRESETS = {
     lightWrap: true,
     morphology: true,
     blurRadius: 10,
+    bokeh: true,
+    beauty: true,
     modelWidth: 256,
     modelHeight: 144,
     modelFps: 12,
@@ -208,6 +355,8 @@ const QUALITY_PRESETS = {
     lightWrap: true,
     morphology: true,
     blurRadius: 12,
+    bokeh: true,
+    beauty: true,
     modelWidth: 256,
     modelHeight: 144,
     modelFps: 24,
@@ -220,12 +369,29 @@ const QUALITY_PRESETS = {
     lightWrap: true,
     morphology: true,
     blurRadius: 12,
+    bokeh: true,
+    beauty: true,
     modelWidth: 256,
     modelHeight: 144,
     modelFps: 30,
   },
 };
 
+/** The canvas output is always full-range sRGB, whatever the camera sent */
+const OUTPUT_COLOR_SPACE: VideoColorSpaceInit = {
+  primaries: 'bt709',
+  transfer: 'iec61966-2-1',
+  matrix: 'rgb',
+  fullRange: true,
+};
+
+/**
+ * VideoFrameInit plus colorSpace. Browsers that accept a color space for
+ * image-sourced frames tag the output with it; the rest tag canvas frames
+ * sRGB already.
+ */
+type OutputFrameInit = VideoFrameInit & { colorSpace?: VideoColorSpaceInit };
+
 interface PerformanceMetrics {
   modelInferenceMs: number;
   pipelineMs: number;
@@ -240,8 +406,11 @@ export class SegmentationProcessor {
   private model: SegmentationModel | null = null;
   private adaptive: AdaptiveQualityController | null = null;
   private autoFramer: AutoFramer;
+  private people: PersonTracker;
   private opts: Required<SegmentationProcessorOptions>;
   private qualityPreset: typeof QUALITY_PRESETS.medium;
+  private bokehAllowed: boolean; // Current quality tier can afford 'bokeh' mode
+  private beautyAllowed: boolean; // Current quality tier can afford the beauty stage
 
   // Frame scheduling
   private lastModelTime = 0;
@@ -266,6 +435,30 @@ export class SegmentationProcessor {
   private initialized = false;
   private width = 0;
   private height = 0;
+  private outputWidth = 0; // Emitted frame size (outputWidth/outputHeight or camera size)
+  private outputHeight = 0;
+  private outputAspect = 0; // Parsed outputAspect, 0 = camera aspect
+
+  // Async background loading: latest request wins, bitmap we decoded is ours to close
+  private backgroundLoadId = 0;
+  private ownedBackground: ImageBitmap | null = null;
+
+  // Matte output track: receives the matte canvas once per processed frame
+  private matteSink: ((matte: OffscreenCanvas) => void) | null = null;
+  private frameTimestampUs = 0; // Timestamp of the frame being processed (VideoFrame units)
+  private frameDurationUs: number | undefined; // Duration of the input VideoFrame, carried to outputs
+
+  // Overlays by id, kept here so they survive pipeline re-creation
+  private overlays = new Map<number, OverlayOptions>();
+  private nextOverlayId = 1;
+
+  // Extra output tracks (createOutput) rendered from the same mask
+  private outputs = new Map<number, ExtraOutput>();
+  private nextOutputId = 1;
+
+  // On/off fade: 0 = untouched camera, 1 = full effect; moves toward the mode's target
+  private effectAmount = 1;
+  private lastFadeTime = -1;
 
   // ROI cropping: use previous frame's person bbox to crop next frame's model input
   private personCropRegion: import('./model').CropRegion | null = null;
@@ -274,6 +467,7 @@ export class SegmentationProcessor {
   private workerClient: ModelWorkerClient | null = null;
   private workerMask: Float32Array | null = null;
   private workerMotion: Float32Array | null = null;
+  private workerKeptMask: Float32Array | null = null; // Last filtered worker mask (person policy motion)
   private workerBBox: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
   private workerInferenceMs = 0;
   private workerHasFreshMask = false;
@@ -393,11 +587,37 @@ export class SegmentationProcessor {
     this.opts = {
       backgroundMode: 'blur',
       blurRadius: 12,
+      depthBlur: false,
+      depthBlurRange: 0.5,
+      depthBlurFalloff: 1.5,
+      maskAwareBlur: true,
+      dropShadow: false,
+      shadowAngle: 45,
+      shadowDistance: 0.03,
+      shadowSoftness: 0.04,
+      shadowOpacity: 0.35,
+      beautyStrength: 0,
+      lowLightEnhancement: false,
+      lowLightStrength: 0.7,
+      lowLightMaxGain: 2.0,
+      dimAmount: 0.6,
+      pixelateBlockSize: 24,
+      posterizeLevels: 4,
       backgroundColor: '#00FF00',
       backgroundImage: null,
+      backgroundVideo: null,
+      backgroundFit: 'cover',
+      backgroundFocalPoint: { x: 0.5, y: 0.5 },
+      colorMatchStrength: 0.2,
+      backgroundTransitionMs: 300,
+      toggleTransitionMs: 300,
       modelFps: 0,
       outputFps: 30,
+      outputWidth: 0,
+      outputHeight: 0,
+      outputAspect: 0,
       modelConfig: {},
+      backend: null,
       quality: 'medium',
       debug: false,
       adaptive: true,
@@ -405,6 +625,15 @@ export class SegmentationProcessor {
       autoFrame: {},
       useWorker: false,
       backgroundFixed: false,
+      hairSoftness: 2.0,
+      clothesEdgeHardness: 0.6,
+      personPolicy: 'all',
+      segmentationSource: 'model',
+      chromaKeyColor: '#00FF00',
+      chromaKeySimilarity: 0.4,
+      chromaKeySmoothness: 0.08,
+      chromaKeySpill: 0.5,
+      inputColorRange: 'auto',
       onDiagnostic: () => { },
       diagnosticsLevel: 'off',
       diagnosticsIntervalMs: 5000,
@@ -414,11 +643,17 @@ export class SegmentationProcessor {
     };
 
     this.qualityPreset = QUALITY_PRESETS[this.opts.quality] ?? QUALITY_PRESETS.high;
+    this.bokehAllowed = this.qualityPreset.bokeh;
+    this.beautyAllowed = this.qualityPreset.beauty;
     this.modelInterval = 1000 / (this.opts.modelFps || this.qualityPreset.modelFps);
     this.diagLevel = this.opts.diagnosticsLevel;
+    this.effectAmount = this.opts.backgroundMode === 'none' ? 0 : 1; // No fade-in on start
 
     // Initialize auto-framer
-    this.autoFramer = new AutoFramer(this.opts.autoFrame);
+    this.outputAspect = parseAspect(this.opts.outputAspect);
+    this.autoFramer = new AutoFramer({ ...this.opts.autoFrame, aspect: this.outputAspect });
+    if (this.opts.segmentationSource === 'chroma' && this.autoFramer.enabled) this.rejectChromaFraming();
+    this.people = new PersonTracker({ policy: this.opts.personPolicy });
 
     // Initialize adaptive quality controller
     if (this.opts.adaptive) {
@@ -430,7 +665,11 @@ export class SegmentationProcessor {
       this.adaptive.onApply((level: QualityLevel) => {
         this.diagLog(`quality-change: tier=${level.tier} label=${level.label} modelFps=${level.modelFps}`);
         this.modelInterval = 1000 / level.modelFps;
+        this.bokehAllowed = level.bokeh;
+        this.beautyAllowed = level.beauty;
         this.pipeline?.updateOptions({
+          backgroundMode: this.pipelineBackgroundMode(),
+          beautyStrength: this.pipelineBeautyStrength(),
           appearRate: level.appearRate,
           disappearRate: level.disappearRate,
           featherRadius: level.featherRadius,
@@ -478,19 +717,32 @@ export class SegmentationProcessor {
     this.width = width;
     this.height = height;
 
+    // Output size: explicit target or camera size; a single dimension keeps the output aspect
+    const output = resolveOutputSize(width, height, this.opts.outputWidth, this.opts.outputHeight, this.outputAspect);
+    if (output.aspectConflict) {
+      console.warn(`[segmo] outputWidth x outputHeight (${this.opts.outputWidth}x${this.opts.outputHeight}) ` +
+        `doesn't match outputAspect ${this.opts.outputAspect} — using ${output.width}x${output.height}`);
+    }
+    this.outputWidth = output.width;
+    this.outputHeight = output.height;
+
     // Initialize diagnostics early so this.log() captures lifecycle events
     this.diagInitTime = performance.now();
 
     const preset = this.qualityPreset;
 
-    // Initialize model (skip MediaPipe load when worker handles inference)
+    // Initialize model (skip MediaPipe load when worker handles inference).
+    // The worker only runs MediaPipe's person mask — a custom backend or
+    // multiclass masks stay on the main thread.
+    const useWorker = this.opts.useWorker && !this.opts.backend && !this.opts.modelConfig.multiclass;
     this.model = new SegmentationModel({
       outputWidth: preset.modelWidth,
       outputHeight: preset.modelHeight,
       delegate: 'GPU',
       ...this.opts.modelConfig,
-    });
-    if (!this.opts.useWorker) {
+    }, this.opts.backend ?? undefined);
+    this.model.setPersonTracker(this.people);
+    if (!useWorker) {
       await this.model.init();
     }
 
@@ -500,10 +752,33 @@ export class SegmentationProcessor {
       height,
       maskWidth: this.model.maskWidth,
       maskHeight: this.model.maskHeight,
-      backgroundMode: this.opts.backgroundMode === 'none' ? 'blur' : this.opts.backgroundMode,
+      outputWidth: this.outputWidth,
+      outputHeight: this.outputHeight,
+      backgroundMode: this.pipelineBackgroundMode(),
       backgroundColor: this.opts.backgroundColor,
       backgroundImage: this.opts.backgroundImage,
+      backgroundVideo: this.opts.backgroundVideo,
+      backgroundFit: this.opts.backgroundFit,
+      backgroundFocalPoint: this.opts.backgroundFocalPoint,
+      colorMatchStrength: this.opts.colorMatchStrength,
+      backgroundTransitionMs: this.opts.backgroundTransitionMs,
       blurRadius: this.opts.blurRadius || preset.blurRadius,
+      depthBlur: this.opts.depthBlur,
+      depthBlurRange: this.opts.depthBlurRange,
+      depthBlurFalloff: this.opts.depthBlurFalloff,
+      maskAwareBlur: this.opts.maskAwareBlur,
+      dropShadow: this.opts.dropShadow,
+      shadowAngle: this.opts.shadowAngle,
+      shadowDistance: this.opts.shadowDistance,
+      shadowSoftness: this.opts.shadowSoftness,
+      shadowOpacity: this.opts.shadowOpacity,
+      beautyStrength: this.pipelineBeautyStrength(),
+      lowLight: this.opts.lowLightEnhancement,
+      lowLightStrength: this.opts.lowLightStrength,
+      lowLightMaxGain: this.opts.lowLightMaxGain,
+      dimAmount: this.opts.dimAmount,
+      pixelateBlockSize: this.opts.pixelateBlockSize,
+      posterizeLevels: this.opts.posterizeLevels,
       lightWrap: preset.lightWrap,
       morphology: preset.morphology,
       appearRate: preset.appearRate,
@@ -511,12 +786,22 @@ export class SegmentationProcessor {
       featherRadius: preset.featherRadius,
       rangeSigma: preset.rangeSigma,
       backgroundFixed: this.opts.backgroundFixed,
+      hairSoftness: this.opts.hairSoftness,
+      clothesEdgeHardness: this.opts.clothesEdgeHardness,
+      segmentationSource: this.opts.segmentationSource,
+      chromaKeyColor: this.opts.chromaKeyColor,
+      chromaKeySimilarity: this.opts.chromaKeySimilarity,
+      chromaKeySmoothness: this.opts.chromaKeySmoothness,
+      chromaKeySpill: this.opts.chromaKeySpill,
     });
+    this.pipeline.setMatteCallback(this.matteSink);
+    this.overlays.forEach((overlay, id) => this.pipeline!.setOverlay(id, overlay));
 
     this.initialized = true;
 
     // Configure auto-framer with actual dimensions
     this.autoFramer.setFrameSize(width, height);
+    this.outputs.forEach(output => output.framer?.setFrameSize(width, height));
     this.log('Initialized', {
       resolution: `${width}x${height}`,
       modelResolution: `${this.model.maskWidth}x${this.model.maskHeight}`,
@@ -542,11 +827,11 @@ export class SegmentationProcessor {
     // causing the mask to freeze on the first frame. Use main-thread path instead.
     const isSafari = typeof navigator !== 'undefined' &&
       /Safari/.test(navigator.userAgent) && !/Chrome/.test(navigator.userAgent);
-    if (isSafari && this.opts.useWorker) {
+    if (isSafari && useWorker) {
       this.log('Safari detected — disabling Web Worker, using main-thread inference');
       await this.model.init();
     }
-    if (this.opts.useWorker && !isSafari) {
+    if (useWorker && !isSafari) {
       try {
         this.workerClient = new ModelWorkerClient({
           outputWidth: preset.modelWidth,
@@ -574,7 +859,7 @@ export class SegmentationProcessor {
 
     // Start periodic diagnostics emission
     this.startDiagnostics();
-    this.diagLog(`init: ${width}x${height} model=${this.model!.maskWidth}x${this.model!.maskHeight} worker=${this.opts.useWorker} quality=${this.opts.quality}`);
+    this.diagLog(`init: ${width}x${height} model=${this.model!.maskWidth}x${this.model!.maskHeight} worker=${useWorker} quality=${this.opts.quality}`);
   }
 
   /**
@@ -589,23 +874,15 @@ export class SegmentationProcessor {
    */
   processFrame(frame: TexImageSource, timestamp: number): OffscreenCanvas | null {
     if (!this.initialized || !this.pipeline || !this.model) return null;
-    if (this.opts.backgroundMode === 'none') return null;
-
-    const frameStart = performance.now();
-    this.updateFpsCounter(timestamp);
-
-    // Adaptive model rate: run model faster during motion to reduce mask lag.
-    // Up to 4x speedup, capped at display refresh (~60fps / 16ms min).
-    const maxVx = Math.max(Math.abs(this.maskVx[0]), Math.abs(this.maskVx[1]), Math.abs(this.maskVx[2]));
-    const motionMag = Math.sqrt(maxVx * maxVx + this.maskVy * this.maskVy);
-    const motionSpeedup = Math.min(4.0, 1.0 + motionMag * 20);
-    const effectiveInterval = Math.max(16, this.modelInterval / motionSpeedup);
-    const timeSinceLastModel = timestamp - this.lastModelTime;
-    const shouldRunModel = timeSinceLastModel >= effectiveInterval;
-
-    // Apply auto-frame crop BEFORE rendering so centering is immediate
+    // Keep rendering while fading out after switching to 'none'
+    // Extra outputs keep the pipeline running even when the main output passes through
+    const effect = this.stepEffectFade(timestamp);
+    this.readFrameMetadata(frame);
+    const resized = this.outputWidth !== this.width || this.outputHeight !== this.height;
+    // Apply auto-frame crop BEFORE rendering so centering is immediate.
+    // A shaped output (outputAspect) is always cropped, even at zoom 1.
     const cropRect = this.autoFramer.getCurrentCrop();
-    if (cropRect.zoom > 1.02) {
+    if (cropRect.zoom > 1.02 || this.outputAspect > 0) {
       this.pipeline.setCropRect({
         x: cropRect.x,
         y: cropRect.y,
@@ -622,17 +899,43 @@ export class SegmentationProcessor {
       // }
     }
 
+    if (effect <= 0 && this.outputs.size === 0) {
+      // Off, but a resized output must keep its size — scale the raw frame on the GPU
+      return resized ? this.pipeline.passthrough(frame) : null;
+    }
+    this.pipeline.setEffectAmount(effect);
+    this.syncOutputs();
+
+    const frameStart = performance.now();
+    this.frameTimestampUs = Math.round(timestamp * 1000);
+    this.updateFpsCounter(timestamp);
+
+    // Adaptive model rate: run model faster during motion to reduce mask lag.
+    // Up to 4x speedup, capped at display refresh (~60fps / 16ms min).
+    const maxVx = Math.max(Math.abs(this.maskVx[0]), Math.abs(this.maskVx[1]), Math.abs(this.maskVx[2]));
+    const motionMag = Math.sqrt(maxVx * maxVx + this.maskVy * this.maskVy);
+    const motionSpeedup = Math.min(4.0, 1.0 + motionMag * 20);
+    const effectiveInterval = Math.max(16, this.modelInterval / motionSpeedup);
+    const timeSinceLastModel = timestamp - this.lastModelTime;
+    const shouldRunModel = timeSinceLastModel >= effectiveInterval;
+
     let output: OffscreenCanvas;
 
+    // --- Chroma key: mask keyed from the camera on the GPU, model skipped ---
+    if (this.opts.segmentationSource === 'chroma') {
+      this.metrics.modelInferenceMs = 0;
+      const pipelineStart = performance.now();
+      output = this.pipeline.process(frame, null);
+      this.metrics.pipelineMs = performance.now() - pipelineStart;
+    }
     // --- Worker path: non-blocking inference off main thread ---
-    if (this.workerClient) {
+    else if (this.workerClient) {
       if (this.workerHasFreshMask && this.workerMask) {
         this.workerHasFreshMask = false;
         this.modelFpsCounter++;
+        this.trackWorkerPeople(this.workerMask);
         this.updateROICrop(this.workerBBox);
-        this.autoFramer.updateFromMask(
-          this.workerMask, this.model.maskWidth, this.model.maskHeight,
-        );
+        this.updateFraming(this.workerMask);
         // Update model state from worker results (model.segment() isn't called in worker path)
         this.model.updateBBoxFromExternal(this.workerBBox);
         if (this.workerBBox) {
@@ -660,7 +963,7 @@ export class SegmentationProcessor {
         this.interpFrameCount++;
         this.metrics.modelInferenceMs = 0;
         const pipelineStart = performance.now();
-        output = this.pipeline.processInterpolated(frame, this.getAccumulatedShift());
+        output = this.renderWithoutModel(frame);
         this.metrics.pipelineMs = performance.now() - pipelineStart;
       }
 
@@ -670,7 +973,8 @@ export class SegmentationProcessor {
       }
     }
     // --- Main thread path: blocking inference ---
-    else if (shouldRunModel) {
+    // (an async backend still busy with the last frame counts as a skipped model frame)
+    else if (shouldRunModel && !this.model.inferencePending) {
       const modelStart = performance.now();
       const mask = this.model.segment(
         frame, timestamp,
@@ -687,10 +991,9 @@ export class SegmentationProcessor {
         const roiPadding = afZoom > 1.02 ? 0.05 * afZoom : 0.05;
         const rawBBox = this.model.getPersonBBox(roiPadding);
         this.updateROICropFromBBox(rawBBox);
-        this.autoFramer.updateFromMask(
-          mask, this.model.maskWidth, this.model.maskHeight,
-        );
+        this.updateFraming(mask);
         const motionMap = this.model.getMotionMap();
+        this.pipeline.setClassMasks(this.model.getClassMasks());
 
         // Capture motion vector + reset interpolation counter
         const mv = this.model.getMaskMotionVector();
@@ -711,7 +1014,7 @@ export class SegmentationProcessor {
         // Model ran but returned no mask — keep modelInferenceMs (it was a real run)
         this.interpFrameCount++;
         const pipelineStart = performance.now();
-        output = this.pipeline.processInterpolated(frame, this.getAccumulatedShift());
+        output = this.renderWithoutModel(frame);
         this.metrics.pipelineMs = performance.now() - pipelineStart;
       }
     } else {
@@ -720,7 +1023,7 @@ export class SegmentationProcessor {
       this.interpFrameCount++;
       this.metrics.modelInferenceMs = 0;
       const pipelineStart = performance.now();
-      output = this.pipeline.processInterpolated(frame, this.getAccumulatedShift());
+      output = this.renderWithoutModel(frame);
       this.metrics.pipelineMs = performance.now() - pipelineStart;
     }
 
@@ -737,6 +1040,7 @@ export class SegmentationProcessor {
       this.logMetrics();
     }
 
+    if (effect <= 0 && !resized) return null;
     if (this.opts.diagnosticsIncludeImage) this.diagLastOutput = output;
     return output;
   }
@@ -770,23 +1074,7 @@ export class SegmentationProcessor {
       generator = new MediaStreamTrackGenerator({ kind: 'video' });
       pipelineAbort = new AbortController();
 
-      const transformer = new TransformStream<VideoFrame, VideoFrame>({
-        transform: (frame, controller) => {
-          const timestamp = frame.timestamp ?? performance.now();
-          const output = this.processFrame(frame, timestamp / 1000);
-
-          if (output) {
-            const outputFrame = new VideoFrame(output, {
-              timestamp: frame.timestamp,
-              alpha: 'discard',
-            });
-            frame.close();
-            controller.enqueue(outputFrame);
-          } else {
-            controller.enqueue(frame);
-          }
-        },
-      });
+      const transformer = this.createFrameTransformer();
 
       trackProcessor.readable
         .pipeThrough(transformer, { signal: pipelineAbort.signal })
@@ -825,6 +1113,7 @@ export class SegmentationProcessor {
         const settings = opts.track.getSettings();
         const width = settings.width || 1280;
         const height = settings.height || 720;
+        // Re-init only on a camera size change; the output size target is re-applied by init
         if (width !== this.width || height !== this.height) {
           await this.init(width, height);
         }
@@ -867,29 +1156,193 @@ export class SegmentationProcessor {
     const trackProcessor = new MediaStreamTrackProcessor({ track: inputTrack });
     const trackGenerator = new MediaStreamTrackGenerator({ kind: 'video' });
 
-    const transformer = new TransformStream<VideoFrame, VideoFrame>({
+    const transformer = this.createFrameTransformer();
+
+    trackProcessor.readable
+      .pipeThrough(transformer)
+      .pipeTo(trackGenerator.writable);
+
+    return trackGenerator as unknown as MediaStreamTrack;
+  }
+
+  /**
+   * Create a second track carrying the final full-res mask as grayscale
+   * (post bilateral/feather/erosion, with the auto-frame crop applied).
+   *
+   * Each matte frame is rendered in the same pass as the processed frame and,
+   * on the Insertable Streams path, carries the same timestamp. No frames are
+   * produced while backgroundMode is 'none' (unless extra outputs keep the
+   * pipeline running). Calling again replaces the previous
+   * matte track; stop the track to stop rendering the matte.
+   *
+   * ```ts
+   * const outputTrack = await processor.createProcessedTrack(cameraTrack);
+   * const matteTrack = processor.createMatteTrack();
+   * ```
+   */
+  createMatteTrack(): MediaStreamTrack {
+    const { track, sink, release } = this.createSinkTrack(() => false);
+    return this.attachMatteSink(sink, track, release);
+  }
+
+  /**
+   * Create an extra output track that reuses this processor's model run and
+   * mask, with its own background mode, mirror flag and crop. Much cheaper than
+   * a second processor: only background generation and compositing repeat.
+   * Background assets (image, video, color, blur radius) are shared. Frames are
+   * produced whenever the processor processes a camera frame; stop the track
+   * to remove the output.
+   *
+   * ```ts
+   * const callTrack = await processor.createProcessedTrack(cameraTrack);
+   * const selfView = processor.createOutput({ mirror: true });
+   * const recording = processor.createOutput({ backgroundMode: 'none', crop: 'auto' });
+   * ```
+   */
+  createOutput(options: OutputOptions = {}): MediaStreamTrack {
+    const id = this.nextOutputId++;
+    const transparent = () => (options.backgroundMode ?? this.opts.backgroundMode) === 'transparent';
+    const { track, sink, release } = this.createSinkTrack(transparent);
+
+    const framer = options.crop === 'auto'
+      ? new AutoFramer({ enabled: true, ...options.autoFrame, aspect: this.outputAspect })
+      : null;
+    if (framer && this.width > 0) framer.setFrameSize(this.width, this.height);
+    this.outputs.set(id, { options, track, framer, sink });
+
+    const origStop = track.stop.bind(track);
+    track.stop = () => {
+      this.outputs.delete(id);
+      this.pipeline?.setOutput(id, null);
+      release();
+      origStop();
+    };
+    return track;
+  }
+
+  /**
+   * A track fed by a canvas sink: MediaStreamTrackGenerator where available,
+   * canvas captureStream otherwise (Safari, Firefox). `release` closes the writer.
+   */
+  private createSinkTrack(keepAlpha: () => boolean): {
+    track: MediaStreamTrack;
+    sink: (canvas: OffscreenCanvas) => void;
+    release: () => void;
+  } {
+    if (typeof MediaStreamTrackGenerator !== 'undefined') {
+      const generator = new MediaStreamTrackGenerator({ kind: 'video' });
+      const writer = generator.writable.getWriter();
+      const sink = (source: OffscreenCanvas) => {
+        // Drop rather than queue when the consumer falls behind
+        if (writer.desiredSize !== null && writer.desiredSize <= 0) return;
+        const init: OutputFrameInit = {
+          timestamp: this.frameTimestampUs,
+          duration: this.frameDurationUs,
+          alpha: keepAlpha() ? 'keep' : 'discard',
+          colorSpace: OUTPUT_COLOR_SPACE,
+        };
+        const frame = new VideoFrame(source, init);
+        writer.write(frame).catch(() => frame.close());
+      };
+      return {
+        track: generator as unknown as MediaStreamTrack,
+        sink,
+        release: () => writer.close().catch(() => { /* already closed */ }),
+      };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = this.width || 1280;
+    canvas.height = this.height || 720;
+    const ctx = canvas.getContext('2d')!;
+    const sink = (source: OffscreenCanvas) => {
+      if (canvas.width !== source.width || canvas.height !== source.height) {
+        canvas.width = source.width;
+        canvas.height = source.height;
+      }
+      if (keepAlpha()) ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(source, 0, 0);
+    };
+    const track = canvas.captureStream(this.opts.outputFps).getVideoTracks()[0];
+    return { track, sink, release: () => { /* nothing to release */ } };
+  }
+
+  /** Route the pipeline's matte to a sink until the returned track is stopped */
+  private attachMatteSink(
+    sink: (matte: OffscreenCanvas) => void,
+    track: MediaStreamTrack,
+    onStop: () => void,
+  ): MediaStreamTrack {
+    this.matteSink = sink;
+    this.pipeline?.setMatteCallback(sink);
+
+    const origStop = track.stop.bind(track);
+    track.stop = () => {
+      if (this.matteSink === sink) {
+        this.matteSink = null;
+        this.pipeline?.setMatteCallback(null);
+      }
+      onStop();
+      origStop();
+    };
+    return track;
+  }
+
+  /**
+   * Insertable Streams transform shared by the LiveKit and standalone paths.
+   * Timestamp and duration carry over. The input's color range and visibleRect
+   * are applied on upload (see readFrameMetadata and the pipeline's camera
+   * upload), so the output is a full-range sRGB frame and is tagged as one.
+   * Frames are paced to outputFps before any processing.
+   */
+  private createFrameTransformer(): TransformStream<VideoFrame, VideoFrame> {
+    const pacer = new FramePacer({ fps: this.opts.outputFps });
+    let lastOutput: VideoFrame | null = null; // Repeated when the camera falls behind outputFps
+    const releaseLast = () => {
+      lastOutput?.close();
+      lastOutput = null;
+    };
+
+    // cancel runs when the track is torn down without a flush (not in the DOM typings yet)
+    const transformer: Transformer<VideoFrame, VideoFrame> & { cancel?: () => void } = {
       transform: (frame, controller) => {
         const timestamp = frame.timestamp ?? performance.now();
-        const output = this.processFrame(frame, timestamp / 1000);
+        if (pacer.fps !== this.opts.outputFps) pacer.setFps(this.opts.outputFps);
 
+        const slots = pacer.advance(timestamp);
+        if (slots === 0) {
+          // Ahead of the target rate — drop before spending any GPU time
+          frame.close();
+          return;
+        }
+        if (lastOutput) {
+          for (const repeat of pacer.repeats(timestamp, slots)) {
+            controller.enqueue(new VideoFrame(lastOutput, repeat));
+          }
+        }
+
+        const output = this.processFrame(frame, timestamp / 1000);
+        let outputFrame = frame;
         if (output) {
-          const outputFrame = new VideoFrame(output, {
+          const init: OutputFrameInit = {
             timestamp: frame.timestamp,
-            alpha: 'discard',
-          });
+            duration: frame.duration ?? undefined,
+            // Transparent mode carries the mask in alpha
+            alpha: this.opts.backgroundMode === 'transparent' ? 'keep' : 'discard',
+            colorSpace: OUTPUT_COLOR_SPACE,
+          };
+          outputFrame = new VideoFrame(output, init);
           frame.close();
-          controller.enqueue(outputFrame);
-        } else {
-          controller.enqueue(frame);
         }
+        releaseLast();
+        // Only paced output repeats frames — unpaced (fps 0) keeps nothing alive
+        if (pacer.interval > 0) lastOutput = outputFrame.clone();
+        controller.enqueue(outputFrame);
       },
-    });
-
-    trackProcessor.readable
-      .pipeThrough(transformer)
-      .pipeTo(trackGenerator.writable);
-
-    return trackGenerator as unknown as MediaStreamTrack;
+      flush: releaseLast,
+      cancel: releaseLast,
+    };
+    return new TransformStream<VideoFrame, VideoFrame>(transformer);
   }
 
   /** Canvas captureStream path — cross-browser fallback (Safari, Firefox) */
@@ -905,10 +1358,12 @@ export class SegmentationProcessor {
     video.playsInline = true;
     video.play();
 
-    // Output canvas for captureStream
+    // Output canvas for captureStream (output size, not camera size)
+    const outW = this.outputWidth || w;
+    const outH = this.outputHeight || h;
     const outputCanvas = document.createElement('canvas');
-    outputCanvas.width = w;
-    outputCanvas.height = h;
+    outputCanvas.width = outW;
+    outputCanvas.height = outH;
     const ctx = outputCanvas.getContext('2d')!;
 
     const fps = settings.frameRate || 30;
@@ -916,17 +1371,28 @@ export class SegmentationProcessor {
     const outputTrack = outputStream.getVideoTracks()[0];
 
     let running = true;
+    // Paced on media time; captureStream only emits when the canvas is drawn
+    const pacer = new FramePacer({ fps: this.opts.outputFps });
+    let lastMediaTime = -1;
 
     const drawFrame = () => {
       if (!running || inputTrack.readyState === 'ended') return;
 
-      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+      if (pacer.fps !== this.opts.outputFps) pacer.setFps(this.opts.outputFps);
+      const mediaTime = video.currentTime;
+      const due = video.readyState >= video.HAVE_CURRENT_DATA && mediaTime !== lastMediaTime &&
+        pacer.advance(mediaTime * 1e6) > 0;
+      lastMediaTime = mediaTime;
+
+      if (due) {
         const timestamp = performance.now();
         const output = this.processFrame(video, timestamp);
         if (output) {
+          // drawImage blends — clear first so transparent pixels stay transparent
+          if (this.opts.backgroundMode === 'transparent') ctx.clearRect(0, 0, outW, outH);
           ctx.drawImage(output, 0, 0);
         } else {
-          ctx.drawImage(video, 0, 0, w, h);
+          ctx.drawImage(video, 0, 0, outW, outH);
         }
       }
 
@@ -952,22 +1418,220 @@ export class SegmentationProcessor {
   setBackgroundMode(mode: BackgroundMode): void {
     this.opts.backgroundMode = mode;
     if (mode !== 'none' && this.pipeline) {
-      this.pipeline.updateOptions({ backgroundMode: mode });
+      this.pipeline.updateOptions({ backgroundMode: this.pipelineBackgroundMode() });
     }
   }
 
+  /**
+   * Tune the stylized background modes. Each value applies to its own mode:
+   * dimAmount → 'dim', pixelateBlockSize → 'pixelate', posterizeLevels → 'posterize'.
+   */
+  setStylizeOptions(options: { dimAmount?: number; pixelateBlockSize?: number; posterizeLevels?: number }): void {
+    if (options.dimAmount !== undefined) this.opts.dimAmount = Math.max(0, Math.min(1, options.dimAmount));
+    if (options.pixelateBlockSize !== undefined) this.opts.pixelateBlockSize = Math.max(1, options.pixelateBlockSize);
+    if (options.posterizeLevels !== undefined) this.opts.posterizeLevels = Math.max(2, Math.round(options.posterizeLevels));
+    this.pipeline?.updateOptions({
+      dimAmount: this.opts.dimAmount,
+      pixelateBlockSize: this.opts.pixelateBlockSize,
+      posterizeLevels: this.opts.posterizeLevels,
+    });
+  }
+
   /** Set background color (hex string) */
   setBackgroundColor(color: string): void {
     this.opts.backgroundColor = color;
     this.pipeline?.updateOptions({ backgroundColor: color });
   }
 
-  /** Set background image */
-  setBackgroundImage(image: HTMLImageElement): void {
+  /** Set background image (must already be loaded — see setBackground() for async sources) */
+  setBackgroundImage(image: TexImageSource): void {
+    this.backgroundLoadId++; // Supersede any in-flight setBackground()
+    this.releaseOwnedBackground(image);
     this.opts.backgroundImage = image;
+    this.opts.backgroundMode = 'image';
     this.pipeline?.updateOptions({ backgroundImage: image, backgroundMode: 'image' });
   }
 
+  /**
+   * Set a background image from any source: a TexImageSource (image, ImageBitmap,
+   * canvas, OffscreenCanvas, VideoFrame...), a Blob, or a URL string.
+   *
+   * Fetching and decoding happen asynchronously; the current background stays
+   * visible until the new one is fully decoded, then switches atomically.
+   * Never rejects — failures (network, CORS, decode, or being superseded by a
+   * newer call) are reported in the result and leave the current background as is.
+   *
+   * ```ts
+   * const result = await processor.setBackground('https://cdn.example.com/office.jpg');
+   * if (!result.ok) console.warn(result.error, result.message);
+   * ```
+   */
+  async setBackground(source: BackgroundSource): Promise<BackgroundLoadResult> {
+    const loadId = ++this.backgroundLoadId;
+    const loaded = await loadBackgroundSource(source);
+
+    if (loadId !== this.backgroundLoadId) {
+      if (loaded.ok) loaded.bitmap.close();
+      return { ok: false, error: 'superseded', message: 'A newer background was set before this one finished loading' };
+    }
+    if (!loaded.ok) return loaded;
+
+    const bitmap = loaded.bitmap;
+    this.opts.backgroundImage = bitmap;
+    this.opts.backgroundMode = 'image';
+    this.pipeline?.updateOptions({ backgroundImage: bitmap, backgroundMode: 'image' });
+    // Old bitmap is no longer referenced by the GPU texture — release it
+    this.releaseOwnedBackground(bitmap);
+    this.ownedBackground = bitmap;
+    return { ok: true, width: bitmap.width, height: bitmap.height };
+  }
+
+  /**
+   * Set an animated background. Accepts a looping video element (e.g. a branded clip)
+   * or a live MediaStreamTrack. The background is re-uploaded only when the source
+   * presents a new frame, independent of the camera frame rate.
+   *
+   * Returns an 'unsupported' error, leaving the background unchanged, for a track
+   * in a worker without MediaStreamTrackProcessor (the <video> fallback needs a document).
+   */
+  setBackgroundVideo(source: BackgroundVideoInput): BackgroundVideoResult {
+    const check = checkBackgroundVideo(source);
+    if (!check.ok) return check;
+    this.backgroundLoadId++; // A late setBackground() must not switch back to 'image'
+    this.opts.backgroundVideo = source;
+    this.opts.backgroundMode = 'video';
+    this.pipeline?.updateOptions({ backgroundVideo: source, backgroundMode: 'video' });
+    return check;
+  }
+
+  /**
+   * Set how image/video backgrounds fit the frame.
+   * The focal point (normalized, top-left origin) picks which part of the image
+   * stays visible when 'cover' crops it or 'contain' letterboxes it.
+   */
+  setBackgroundFit(fit: BackgroundFit, focalPoint?: { x: number; y: number }): void {
+    this.opts.backgroundFit = fit;
+    if (focalPoint) this.opts.backgroundFocalPoint = focalPoint;
+    this.pipeline?.updateOptions({
+      backgroundFit: fit,
+      backgroundFocalPoint: this.opts.backgroundFocalPoint,
+    });
+  }
+
+  /**
+   * Set how strongly image/video backgrounds are tinted toward the subject's
+   * lighting (0 = off, ~0.2 subtle, 0.5 strong). Subject and background mean
+   * colors are measured on the GPU and smoothed, so changes settle over ~1s.
+   */
+  setColorMatchStrength(strength: number): void {
+    this.opts.colorMatchStrength = Math.max(0, Math.min(1, strength));
+    this.pipeline?.updateOptions({ colorMatchStrength: this.opts.colorMatchStrength });
+  }
+
+  /**
+   * Set transition durations in ms (0 = hard cut): the background crossfade on
+   * mode/image/video/color changes, and the effect fade when toggling 'none'.
+   */
+  setTransitionDurations(backgroundMs: number, toggleMs: number = backgroundMs): void {
+    this.opts.backgroundTransitionMs = Math.max(0, backgroundMs);
+    this.opts.toggleTransitionMs = Math.max(0, toggleMs);
+    this.pipeline?.updateOptions({ backgroundTransitionMs: this.opts.backgroundTransitionMs });
+  }
+
+  /**
+   * Add an image/canvas overlay composited on the GPU. 'front' overlays
+   * (default) sit over the whole output, like name tags; 'behind-subject'
+   * overlays sit on the background so the person occludes them. The source
+   * must already be loaded. Returns an id for updateOverlay/removeOverlay.
+   *
+   * @example
+   * ```ts
+   * const logo = await createImageBitmap(await (await fetch('/logo.png')).blob());
+   * const id = processor.addOverlay({
+   *   source: logo,
+   *   rect: { x: 0.7, y: 0.1, width: 0.2, height: 0.1 },
+   *   layer: 'behind-subject',
+   * });
+   * ```
+   */
+  addOverlay(overlay: OverlayOptions): number {
+    const id = this.nextOverlayId++;
+    this.overlays.set(id, { ...overlay });
+    this.pipeline?.setOverlay(id, overlay);
+    return id;
+  }
+
+  /**
+   * Change an overlay's placement, opacity or layer. Pass `source` again to
+   * re-upload it, e.g. after redrawing a canvas lower-third.
+   */
+  updateOverlay(id: number, changes: Partial<OverlayOptions>): void {
+    const overlay = this.overlays.get(id);
+    if (!overlay) return;
+    Object.assign(overlay, changes);
+    this.pipeline?.setOverlay(id, changes);
+  }
+
+  /** Remove an overlay */
+  removeOverlay(id: number): void {
+    if (!this.overlays.delete(id)) return;
+    this.pipeline?.removeOverlay(id);
+  }
+
+  /**
+   * Choose where the mask comes from. 'chroma' keys a physical green screen on
+   * the GPU and skips model inference, so auto-framing (which follows the model
+   * mask) is turned off with a warning; 'hybrid' keeps the model running and
+   * intersects it with the key, so off-color objects in front of the screen
+   * that aren't the person are dropped. Key settings are optional.
+   */
+  setSegmentationSource(
+    source: SegmentationSource,
+    key: { color?: string; similarity?: number; smoothness?: number; spill?: number } = {},
+  ): void {
+    this.opts.segmentationSource = source;
+    if (source === 'chroma' && this.autoFramer.enabled) this.rejectChromaFraming();
+    if (key.color !== undefined) this.opts.chromaKeyColor = key.color;
+    if (key.similarity !== undefined) this.opts.chromaKeySimilarity = Math.max(0, key.similarity);
+    if (key.smoothness !== undefined) this.opts.chromaKeySmoothness = Math.max(0, key.smoothness);
+    if (key.spill !== undefined) this.opts.chromaKeySpill = Math.max(0, Math.min(1, key.spill));
+    this.pipeline?.updateOptions({
+      segmentationSource: source,
+      chromaKeyColor: this.opts.chromaKeyColor,
+      chromaKeySimilarity: this.opts.chromaKeySimilarity,
+      chromaKeySmoothness: this.opts.chromaKeySmoothness,
+      chromaKeySpill: this.opts.chromaKeySpill,
+    });
+  }
+
+  /** Change the output frame rate (0 = camera rate); pacing restarts on the next frame */
+  setOutputFps(fps: number): void {
+    this.opts.outputFps = Math.max(0, fps);
+  }
+
+  /**
+   * Override the camera's color range: 'auto' follows each VideoFrame's colorSpace,
+   * 'limited' / 'full' force it for webcams that tag their frames wrong.
+   */
+  setInputColorRange(range: 'auto' | ColorRange): void {
+    this.opts.inputColorRange = range;
+  }
+
+  /**
+   * Tune class-aware edges (multiclass masks only): hairSoftness widens the
+   * feather on hair, clothesEdgeHardness (0-1) hardens clothes edges.
+   */
+  setClassEdges(options: { hairSoftness?: number; clothesEdgeHardness?: number }): void {
+    if (options.hairSoftness !== undefined) this.opts.hairSoftness = Math.max(1, options.hairSoftness);
+    if (options.clothesEdgeHardness !== undefined) {
+      this.opts.clothesEdgeHardness = Math.max(0, Math.min(1, options.clothesEdgeHardness));
+    }
+    this.pipeline?.updateOptions({
+      hairSoftness: this.opts.hairSoftness,
+      clothesEdgeHardness: this.opts.clothesEdgeHardness,
+    });
+  }
+
   /** Set whether background stays fixed during auto-frame crop */
   setBackgroundFixed(fixed: boolean): void {
     this.opts.backgroundFixed = fixed;
@@ -980,14 +1644,99 @@ export class SegmentationProcessor {
     this.pipeline?.updateOptions({ blurRadius: radius });
   }
 
+  /**
+   * Set subject-only skin smoothing strength (0 = off, 1 = strongest).
+   * Eyes, hair edges and clothes are protected; low/minimal adaptive tiers skip the stage.
+   */
+  setBeautyStrength(strength: number): void {
+    this.opts.beautyStrength = Math.max(0, Math.min(1, strength));
+    this.pipeline?.updateOptions({ beautyStrength: this.pipelineBeautyStrength() });
+  }
+
+  /**
+   * Brighten and white-balance the subject in dim rooms. Subject luminance and
+   * color cast are measured on the GPU from the mask region and smoothed over
+   * time; the background is left untouched. The applied gain is reported as
+   * `lowLightGain` in diagnostic summaries.
+   *
+   * @param options.strength - 0-1, how much of the measured correction to apply
+   * @param options.maxGain - Upper limit on exposure gain
+   */
+  setLowLightEnhancement(enabled: boolean, options: { strength?: number; maxGain?: number } = {}): void {
+    this.opts.lowLightEnhancement = enabled;
+    if (options.strength !== undefined) this.opts.lowLightStrength = Math.max(0, Math.min(1, options.strength));
+    if (options.maxGain !== undefined) this.opts.lowLightMaxGain = Math.max(1, options.maxGain);
+    this.pipeline?.updateOptions({
+      lowLight: enabled,
+      lowLightStrength: this.opts.lowLightStrength,
+      lowLightMaxGain: this.opts.lowLightMaxGain,
+    });
+  }
+
+  /** Exclude the subject from the blur source (normalized convolution) — on by default */
+  setMaskAwareBlur(enabled: boolean): void {
+    this.opts.maskAwareBlur = enabled;
+    this.pipeline?.updateOptions({ maskAwareBlur: enabled });
+  }
+
+  /**
+   * Grade background blur by distance from the subject's silhouette: background
+   * right beside the person stays lightly blurred, the far wall gets full blur.
+   * Applies to 'blur' mode.
+   *
+   * @param options.range - Distance in frame heights where blur reaches full strength
+   * @param options.falloff - Curve exponent (1 = linear, higher = sharper near the subject)
+   */
+  setDepthBlur(enabled: boolean, options: { range?: number; falloff?: number } = {}): void {
+    this.opts.depthBlur = enabled;
+    if (options.range !== undefined) this.opts.depthBlurRange = options.range;
+    if (options.falloff !== undefined) this.opts.depthBlurFalloff = options.falloff;
+    this.pipeline?.updateOptions({
+      depthBlur: enabled,
+      depthBlurRange: this.opts.depthBlurRange,
+      depthBlurFalloff: this.opts.depthBlurFalloff,
+    });
+  }
+
+  /**
+   * Cast a soft shadow of the subject onto the virtual background so the person
+   * doesn't float. Applies to 'image', 'video' and 'color' modes.
+   *
+   * @param options.angle - Direction in degrees (0 = right, 90 = down)
+   * @param options.distance - Offset in frame heights
+   * @param options.softness - Blur in frame heights
+   * @param options.opacity - Darkness, 0-1
+   */
+  setDropShadow(
+    enabled: boolean,
+    options: { angle?: number; distance?: number; softness?: number; opacity?: number } = {},
+  ): void {
+    this.opts.dropShadow = enabled;
+    if (options.angle !== undefined) this.opts.shadowAngle = options.angle;
+    if (options.distance !== undefined) this.opts.shadowDistance = Math.max(0, options.distance);
+    if (options.softness !== undefined) this.opts.shadowSoftness = Math.max(0, options.softness);
+    if (options.opacity !== undefined) this.opts.shadowOpacity = Math.max(0, Math.min(1, options.opacity));
+    this.pipeline?.updateOptions({
+      dropShadow: enabled,
+      shadowAngle: this.opts.shadowAngle,
+      shadowDistance: this.opts.shadowDistance,
+      shadowSoftness: this.opts.shadowSoftness,
+      shadowOpacity: this.opts.shadowOpacity,
+    });
+  }
+
   /** Change quality preset */
   setQuality(quality: 'low' | 'medium' | 'high' | 'ultra'): void {
     this.opts.quality = quality;
     this.qualityPreset = QUALITY_PRESETS[quality];
     this.modelInterval = 1000 / this.qualityPreset.modelFps;
+    this.bokehAllowed = this.qualityPreset.bokeh;
+    this.beautyAllowed = this.qualityPreset.beauty;
 
     if (this.pipeline) {
       this.pipeline.updateOptions({
+        backgroundMode: this.pipelineBackgroundMode(),
+        beautyStrength: this.pipelineBeautyStrength(),
         appearRate: this.qualityPreset.appearRate,
         disappearRate: this.qualityPreset.disappearRate,
         featherRadius: this.qualityPreset.featherRadius,
@@ -1022,6 +1771,53 @@ export class SegmentationProcessor {
     return this.autoFramer.getCurrentCrop();
   }
 
+  /**
+   * Per-class confidence masks (hair, bodySkin, faceSkin, clothes, accessories)
+   * from the last model run, for custom processing stages. Full-frame, row-major
+   * from the top-left at mask resolution. Null unless modelConfig.multiclass is set.
+   */
+  getClassMasks(): { width: number; height: number; masks: ClassMasks } | null {
+    const masks = this.model?.getClassMasks();
+    if (!masks || !this.model) return null;
+    return { width: this.model.maskWidth, height: this.model.maskHeight, masks };
+  }
+
+  /** People in the last model frame with stable IDs, largest first (fractions of the camera frame) */
+  getPeople(): TrackedPerson[] {
+    return this.people.getPeople();
+  }
+
+  /** Change who stays in the output with several people in frame */
+  setPersonPolicy(policy: PersonPolicy): void {
+    this.opts.personPolicy = policy;
+    this.people.setPolicy(policy);
+  }
+
+  /**
+   * Keep only the person at a point of the output (e.g. a click), switching the
+   * policy to 'selected'. Coordinates are fractions of the output frame — the
+   * main output, or the extra output track the click landed on — and are mapped
+   * through that output's mirror and crop. Returns the person's ID, or null when
+   * nobody is in view.
+   */
+  selectPerson(x: number, y: number, output?: MediaStreamTrack): number | null {
+    let rect: { x: number; y: number; w: number; h: number } | null = null;
+    const extra = output ? [...this.outputs.values()].find(o => o.track === output) : undefined;
+    if (extra) {
+      if (extra.options.mirror) x = 1 - x;
+      rect = this.outputCrop(extra);
+    } else {
+      const c = this.autoFramer.getCurrentCrop();
+      if (c.zoom > 1.02 || this.outputAspect > 0) rect = { x: c.x, y: c.y, w: c.width, h: c.height };
+    }
+    const id = this.people.select(
+      rect ? rect.x + x * rect.w : x,
+      rect ? rect.y + y * rect.h : y,
+    );
+    if (id !== null) this.opts.personPolicy = 'selected';
+    return id;
+  }
+
   /** Get the current ROI crop region used for model input (debug) */
   getModelCropRegion(): { x: number; y: number; w: number; h: number } | null {
     return this.personCropRegion;
@@ -1029,6 +1825,10 @@ export class SegmentationProcessor {
 
   /** Enable/disable auto-framing */
   setAutoFrame(enabled: boolean, continuous?: boolean): void {
+    if (enabled && this.opts.segmentationSource === 'chroma') {
+      this.rejectChromaFraming();
+      return;
+    }
     this.autoFramer.updateConfig({
       enabled,
       continuous: continuous ?? (this.opts.backgroundMode !== 'none'),
@@ -1044,6 +1844,7 @@ export class SegmentationProcessor {
     }
     this.pipeline?.destroy();
     this.model?.destroy();
+    this.opts.backend?.destroy();
     this.workerClient?.destroy();
     this.pipeline = null;
     this.model = null;
@@ -1051,6 +1852,7 @@ export class SegmentationProcessor {
     this.workerClient = null;
     this.workerMask = null;
     this.workerMotion = null;
+    this.workerKeptMask = null;
     this.initialized = false;
   }
 
@@ -1087,6 +1889,52 @@ export class SegmentationProcessor {
 
   // === Private helpers ===
 
+  /** Beauty strength the pipeline applies — 0 when the quality tier disables the stage */
+  private pipelineBeautyStrength(): number {
+    return this.beautyAllowed ? this.opts.beautyStrength : 0;
+  }
+
+  /**
+   * Advance the on/off fade toward 1 (effect on) or 0 (mode 'none') by the
+   * time since the last frame. Returns the effect amount for this frame.
+   */
+  private stepEffectFade(timestamp: number): number {
+    const target = this.opts.backgroundMode === 'none' ? 0 : 1;
+    // Clamp so a stall or timestamp jump doesn't skip or stall the fade
+    const dt = this.lastFadeTime < 0 ? 0 : Math.max(0, Math.min(100, timestamp - this.lastFadeTime));
+    this.lastFadeTime = timestamp;
+
+    const duration = this.opts.toggleTransitionMs;
+    if (duration <= 0 || this.effectAmount === target) {
+      this.effectAmount = target;
+    } else {
+      const step = dt / duration;
+      this.effectAmount = target > this.effectAmount
+        ? Math.min(target, this.effectAmount + step)
+        : Math.max(target, this.effectAmount - step);
+    }
+    return this.effectAmount;
+  }
+
+  /**
+   * Mode the pipeline renders for the requested mode: 'none' keeps blur warm
+   * (pipeline is bypassed anyway), 'bokeh' degrades to Gaussian blur on tiers
+   * that cannot afford the disc gather.
+   */
+  private pipelineBackgroundMode(mode: BackgroundMode = this.opts.backgroundMode): PipelineOptions['backgroundMode'] {
+    if (mode === 'none') return 'blur';
+    if (mode === 'bokeh' && !this.bokehAllowed) return 'blur';
+    return mode;
+  }
+
+  /** Close the ImageBitmap decoded by setBackground() unless it is still the active image */
+  private releaseOwnedBackground(active: TexImageSource | null): void {
+    if (this.ownedBackground && this.ownedBackground !== active) {
+      this.ownedBackground.close();
+      this.ownedBackground = null;
+    }
+  }
+
   /** Start or restart diagnostics timer based on current level */
   private startDiagnostics(): void {
     // Clear existing timer
@@ -1185,6 +2033,7 @@ export class SegmentationProcessor {
       bboxAtEdgeCount: this.diagBBoxAtEdgeCount,
       maskEmptyCount: this.diagMaskEmptyCount,
       webglContextLost: this.pipeline?.isContextLost() ?? false,
+      lowLightGain: this.pipeline?.getLowLightGain() ?? null,
       image: this.captureDiagImage(),
       logs: [...this.diagLogs],
     };
@@ -1299,6 +2148,104 @@ export class SegmentationProcessor {
     this.diagFrameCount++;
   }
 
+  /**
+   * Pick up per-frame metadata from a VideoFrame input: its duration for the
+   * output frames, and its color range for the upload.
+   */
+  private readFrameMetadata(frame: TexImageSource): void {
+    const isVideoFrame = typeof VideoFrame !== 'undefined' && frame instanceof VideoFrame;
+    this.frameDurationUs = isVideoFrame ? frame.duration ?? undefined : undefined;
+
+    let range = this.opts.inputColorRange;
+    if (range === 'auto') {
+      // Browsers apply the range while converting YUV on upload, but sample RGB
+      // formats as-is — only limited-range RGB needs expanding
+      const rgb = isVideoFrame && /^(RGB|BGR)/.test(frame.format ?? '');
+      range = rgb && (frame as VideoFrame).colorSpace.fullRange === false ? 'limited' : 'full';
+    }
+    this.pipeline!.setInputColorRange(range);
+  }
+
+  /** Chroma mode runs no model, so there is no mask for the framer to follow */
+  private rejectChromaFraming(): void {
+    console.warn("[segmo] auto-framing needs the model mask and is off while segmentationSource is 'chroma'");
+    this.autoFramer.updateConfig({ enabled: false });
+    this.autoFramer.reset();
+  }
+
+  /**
+   * Worker masks skip SegmentationModel.segment(), so split them into people
+   * here: drop the people the policy excludes and narrow the bbox to the rest.
+   * The worker's motion map diffs the unfiltered masks, so it is rebuilt from
+   * consecutive filtered masks — dropped people never count as motion.
+   */
+  private trackWorkerPeople(mask: Float32Array): void {
+    if (!this.model) return;
+    this.people.update(mask, this.model.maskWidth, this.model.maskHeight);
+    if (this.people.policy === 'all') {
+      this.workerKeptMask = null;
+      return;
+    }
+    this.people.filterMask(mask);
+    this.workerBBox = this.people.getKeptBBox();
+
+    const previous = this.workerKeptMask;
+    const motion = this.workerMotion;
+    if (previous && previous.length === mask.length && motion && motion.length === mask.length) {
+      for (let i = 0; i < mask.length; i++) motion[i] = Math.abs(mask[i] - previous[i]);
+    } else {
+      this.workerMotion = null; // No filtered previous mask yet — like the first model frame
+    }
+    if (!previous || previous.length !== mask.length) this.workerKeptMask = new Float32Array(mask.length);
+    this.workerKeptMask!.set(mask);
+  }
+
+  /** Feed a new model mask to the auto-framer and to each extra output's own framer */
+  private updateFraming(mask: Float32Array): void {
+    const { maskWidth, maskHeight } = this.model!;
+    this.autoFramer.updateFromMask(mask, maskWidth, maskHeight);
+    this.outputs.forEach(output => output.framer?.updateFromMask(mask, maskWidth, maskHeight));
+  }
+
+  /** Push each extra output's current mode and crop to the pipeline for this frame */
+  private syncOutputs(): void {
+    this.outputs.forEach((output, id) => {
+      const { backgroundMode = this.opts.backgroundMode, mirror = false } = output.options;
+      this.pipeline!.setOutput(id, {
+        backgroundMode: backgroundMode === 'none' ? 'none' : this.pipelineBackgroundMode(backgroundMode),
+        mirror,
+        crop: this.outputCrop(output),
+        sink: output.sink,
+      });
+    });
+  }
+
+  /** An extra output's crop for this frame, as fractions of the camera frame (null = full frame) */
+  private outputCrop(output: ExtraOutput): { x: number; y: number; w: number; h: number } | null {
+    const { crop = 'none' } = output.options;
+    if (crop === 'auto') {
+      const c = output.framer!.getCurrentCrop();
+      return c.zoom > 1.02 || this.outputAspect > 0 ? { x: c.x, y: c.y, w: c.width, h: c.height } : null;
+    }
+    if (crop === 'none') {
+      // All outputs share the output shape — a shaped output shows the centered full-height crop
+      if (this.outputAspect <= 0) return null;
+      const c = this.autoFramer.getFullFrameCrop();
+      return { x: c.x, y: c.y, w: c.width, h: c.height };
+    }
+    return { x: crop.x, y: crop.y, w: crop.width, h: crop.height };
+  }
+
+  /**
+   * Render a frame without a fresh model mask: hybrid re-keys the camera
+   * against the last model mask, otherwise the previous mask is motion-shifted.
+   */
+  private renderWithoutModel(frame: TexImageSource): OffscreenCanvas {
+    return this.opts.segmentationSource === 'hybrid'
+      ? this.pipeline!.process(frame, null)
+      : this.pipeline!.processInterpolated(frame, this.getAccumulatedShift());
+  }
+
   /** 3-zone constant-velocity shift, weighted by zone importance.
    * Head zone 60%, mid 30%, bottom 10%.
    * Capped to ±0.12 — seated person's realistic range. */
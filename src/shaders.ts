@@ -18,6 +18,72 @@ void main() {
   v_texCoord = a_texCoord;
 }`;
 
+/**
+ * Range Expand Shader (limited-range camera input)
+ *
+ * Stretches limited-range (16-235) RGB to full range before any stage samples
+ * the camera. Only runs for frames whose range the upload doesn't convert —
+ * otherwise blacks come out grey and the composite looks washed out.
+ */
+export const RANGE_EXPAND_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;
+
+void main() {
+  vec4 color = texture(u_source, v_texCoord);
+  outColor = vec4(clamp((color.rgb - 16.0 / 255.0) * (255.0 / 219.0), 0.0, 1.0), color.a);
+}`;
+
+/**
+ * Chroma Key Shader (green screen segmentation)
+ *
+ * Replaces the model mask with one keyed from the camera frame, at mask
+ * resolution so it feeds the usual temporal → bilateral → composite chain.
+ * Distance is measured in CbCr chroma, so shading and uneven lighting on the
+ * screen don't matter. Four taps per output texel average the downsample.
+ * Hybrid mode multiplies in a leniently thresholded model mask, rejecting
+ * off-color objects in front of the screen that aren't part of the person.
+ */
+export const CHROMA_KEY_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_camera;        // Full-res camera frame
+uniform sampler2D u_modelMask;     // Raw model mask (hybrid mode)
+uniform vec2 u_texelSize;          // 1.0 / mask dimensions
+uniform vec3 u_keyColor;           // Screen color
+uniform float u_similarity;        // Chroma distance keyed out fully
+uniform float u_smoothness;        // Soft edge width above u_similarity
+uniform float u_useModel;          // 1.0 = intersect with the model mask (hybrid)
+
+vec2 chroma(vec3 c) {
+  return vec2(dot(c, vec3(-0.1687, -0.3313, 0.5)), dot(c, vec3(0.5, -0.4187, -0.0813)));
+}
+
+float keyAt(vec2 uv, vec2 keyChroma) {
+  float d = distance(chroma(texture(u_camera, uv).rgb), keyChroma);
+  return smoothstep(u_similarity, u_similarity + u_smoothness, d);
+}
+
+void main() {
+  vec2 keyChroma = chroma(u_keyColor);
+  vec2 q = u_texelSize * 0.25;
+  float key = 0.25 * (
+    keyAt(v_texCoord + vec2(-q.x, -q.y), keyChroma) +
+    keyAt(v_texCoord + vec2( q.x, -q.y), keyChroma) +
+    keyAt(v_texCoord + vec2(-q.x,  q.y), keyChroma) +
+    keyAt(v_texCoord + vec2( q.x,  q.y), keyChroma));
+
+  float person = smoothstep(0.1, 0.4, texture(u_modelMask, v_texCoord).r);
+  outColor = vec4(key * mix(1.0, person, u_useModel), 0.0, 0.0, 1.0);
+}`;
+
 /**
  * Stage 1: Temporal Smoothing with Hysteresis + Motion Awareness
  *
@@ -188,6 +254,10 @@ void main() {
  * Applies Gaussian blur ONLY to edge pixels (where mask is between 0.05-0.95).
  * Interior foreground/background pixels are left sharp.
  * This creates the soft, natural-looking edges Google Meet is known for.
+ *
+ * With multiclass masks the edge adapts to what it cuts through: hair gets a
+ * wider, more eagerly detected transition (strands are partial coverage, not
+ * an edge), clothes get a steepened, hard edge.
  */
 export const EDGE_FEATHER_SHADER = `#version 300 es
 precision highp float;
@@ -200,9 +270,14 @@ uniform vec2 u_texelSize;          // 1.0 / texture dimensions
 uniform float u_featherRadius;     // Blur radius in texels (2.0-5.0)
 uniform float u_edgeLow;           // Edge detection low threshold (0.05)
 uniform float u_edgeHigh;          // Edge detection high threshold (0.95)
+uniform sampler2D u_classes;       // Class confidence: r = hair, g = clothes, b = skin, a = accessories
+uniform float u_hasClasses;        // 1.0 when class masks are available
+uniform float u_hairSoftness;      // Feather radius multiplier on hair (1.0 = off)
+uniform float u_clothesHardness;   // 0-1: how far clothes edges are steepened
 
 void main() {
   float center = texture(u_mask, v_texCoord).r;
+  vec4 classes = texture(u_classes, v_texCoord) * u_hasClasses;
 
   // Detect edge: check 8 neighbors using precomputed offsets
   vec2 edgeStep = u_texelSize * 2.0;
@@ -216,7 +291,8 @@ void main() {
   maxDiff = max(maxDiff, abs(center - texture(u_mask, v_texCoord + vec2(0.0, edgeStep.y)).r));
   maxDiff = max(maxDiff, abs(center - texture(u_mask, v_texCoord + vec2(edgeStep.x, edgeStep.y)).r));
 
-  float edgeness = smoothstep(0.02, 0.15, maxDiff);
+  // Hair: catch the faint gradients of loose strands too
+  float edgeness = smoothstep(mix(0.02, 0.005, classes.r), 0.15, maxDiff);
 
   if (edgeness < 0.01) {
     outColor = vec4(center, center, center, 1.0);
@@ -237,7 +313,7 @@ void main() {
 
   float radiusSq = u_featherRadius * u_featherRadius;
   float sigmaRecip = 0.5 / radiusSq; // = 1/(2*sigma^2) where sigma=featherRadius
-  vec2 blurStep = u_texelSize * u_featherRadius;
+  vec2 blurStep = u_texelSize * u_featherRadius * mix(1.0, u_hairSoftness, classes.r);
   float blurred = 0.0;
   float totalWeight = 0.0;
 
@@ -251,14 +327,85 @@ void main() {
 
   // Blend between sharp and blurred based on edgeness
   float result = mix(center, blurred, edgeness);
+
+  // Clothes: fabric has a solid silhouette — pull the transition tight
+  result = mix(result, smoothstep(0.35, 0.65, result), classes.g * u_clothesHardness);
   outColor = vec4(result, result, result, 1.0);
 }`;
 
+/**
+ * Stage 3.75: Beauty / Touch-Up (optional)
+ *
+ * Edge-preserving skin smoothing on the subject only. A sparse bilateral
+ * filter (3 rings x 8 taps) smooths low-contrast texture, while three gates
+ * keep it off everything else:
+ * - mask: foreground only
+ * - camera gradient (same measure as the composite's edge sharpening):
+ *   eyes, brows, lips and hair edges stay crisp
+ * - chroma skin likelihood: clothes and background objects held in frame
+ */
+export const BEAUTY_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_camera;        // Full-res camera frame
+uniform sampler2D u_mask;          // Final processed mask
+uniform vec2 u_texelSize;          // 1.0 / frame dimensions
+uniform float u_radiusScale;       // Sample spacing in texels (scales with resolution)
+uniform float u_strength;          // 0-1
+
+const float PI = 3.14159265;
+
+void main() {
+  vec3 c = texture(u_camera, v_texCoord).rgb;
+  float mask = texture(u_mask, v_texCoord).r;
+
+  // Gradient gate: strong local contrast = features to keep
+  vec3 dx = c - texture(u_camera, v_texCoord + vec2(u_texelSize.x, 0.0)).rgb;
+  vec3 dy = c - texture(u_camera, v_texCoord + vec2(0.0, u_texelSize.y)).rgb;
+  float edge = smoothstep(0.001, 0.02, dot(dx, dx) + dot(dy, dy));
+
+  // Skin likelihood from YCbCr chroma (broad range, covers all skin tones)
+  float cb = -0.169 * c.r - 0.331 * c.g + 0.5 * c.b;
+  float cr = 0.5 * c.r - 0.419 * c.g - 0.081 * c.b;
+  float skin = smoothstep(0.0, 0.03, cr) * (1.0 - smoothstep(0.2, 0.25, cr))
+             * (1.0 - smoothstep(0.0, 0.05, cb));
+
+  float amount = u_strength * smoothstep(0.5, 0.9, mask) * (1.0 - edge) * skin;
+  if (amount < 0.001) {
+    outColor = vec4(c, 1.0);
+    return;
+  }
+
+  // Sparse bilateral: range weight keeps pores/blemishes out, edges in
+  vec3 sum = c;
+  float weightSum = 1.0;
+  for (int ring = 1; ring <= 3; ring++) {
+    float r = float(ring) * 1.5 * u_radiusScale;
+    float twist = float(ring) * 0.4; // Rotate rings so taps don't line up
+    for (int k = 0; k < 8; k++) {
+      float a = float(k) * PI * 0.25 + twist;
+      vec3 s = texture(u_camera, v_texCoord + vec2(cos(a), sin(a)) * r * u_texelSize).rgb;
+      vec3 d = s - c;
+      float w = exp(-dot(d, d) * 80.0);
+      sum += s * w;
+      weightSum += w;
+    }
+  }
+
+  outColor = vec4(mix(c, sum / weightSum, amount), 1.0);
+}`;
+
 /**
  * Stage 4: Final Compositing
  *
  * Blends foreground camera frame with the background (blur, image, or color).
- * Supports multiple background modes.
+ * Supports multiple background modes. Transparent mode writes the mask to
+ * alpha and outputs decontaminated foreground color (straight, not premultiplied).
+ * Low-light gain applies to every camera read, so it lands on the subject only
+ * while foreground recovery stays consistent.
  */
 export const COMPOSITE_SHADER = `#version 300 es
 precision highp float;
@@ -269,11 +416,25 @@ out vec4 outColor;
 uniform sampler2D u_camera;        // Full-res camera frame
 uniform sampler2D u_mask;          // Final processed mask
 uniform sampler2D u_background;    // Background texture (blurred frame, image, etc.)
-uniform int u_backgroundMode;      // 0=blur, 1=image, 2=color
+uniform int u_backgroundMode;      // 0=blur/bokeh, 1=image/stylized, 2=color, 3=transparent
 uniform vec3 u_backgroundColor;    // Solid color background
 uniform vec2 u_texelSize;          // 1.0 / frame dimensions
 uniform vec2 u_cropOffset;         // Auto-frame crop offset (0,0 when no crop)
 uniform vec2 u_cropSize;           // Auto-frame crop size (1,1 when no crop)
+uniform sampler2D u_backgroundNear; // Lightly blurred background (depth-graded blur)
+uniform sampler2D u_depth;         // Blur amount by distance from silhouette (depth-graded blur)
+uniform float u_depthBlur;         // 1.0 = grade blur by distance, 0.0 = uniform blur
+uniform vec3 u_fgGain;             // Low-light exposure/white-balance gain (1,1,1 = off)
+uniform sampler2D u_prevBackground; // Previous background, frozen for the crossfade
+uniform float u_transition;        // Background crossfade: 0 = previous, 1 = current
+uniform float u_effect;            // Effect fade: 0 = untouched camera, 1 = full effect
+uniform sampler2D u_behindOverlay; // Behind-subject overlays, premultiplied, background space
+uniform float u_hasBehindOverlay;  // 1.0 = behind-subject overlays present
+uniform vec3 u_keyColor;           // Chroma key color (spill suppression)
+uniform float u_spill;             // Spill suppression strength, 0 = off
+uniform sampler2D u_shadow;        // Blurred mask for the drop shadow
+uniform vec2 u_shadowOffset;       // Shadow offset in UV
+uniform float u_shadowOpacity;     // Drop shadow darkness, 0 = off
 
 // Cross-shaped sample pattern: wider reach for fg/bg color estimation (13 samples)
 const vec2 mOff[13] = vec2[13](
@@ -283,13 +444,32 @@ const vec2 mOff[13] = vec2[13](
   vec2(-3,0),vec2(3,0),vec2(0,-3),vec2(0,3)           // 3px cross
 );
 
+// Green screen spill suppression: remove the part of the pixel's chroma that
+// points toward the key color, keeping luma (green fringes turn neutral)
+vec3 despill(vec3 c) {
+  float y = dot(c, vec3(0.299, 0.587, 0.114));
+  vec2 cc = vec2(dot(c, vec3(-0.1687, -0.3313, 0.5)), dot(c, vec3(0.5, -0.4187, -0.0813)));
+  vec2 k = vec2(dot(u_keyColor, vec3(-0.1687, -0.3313, 0.5)), dot(u_keyColor, vec3(0.5, -0.4187, -0.0813)));
+  vec2 dir = k * inversesqrt(max(dot(k, k), 1e-6));
+  cc -= dir * max(dot(cc, dir), 0.0) * u_spill;
+  return clamp(vec3(y + 1.402 * cc.y, y - 0.344136 * cc.x - 0.714136 * cc.y, y + 1.772 * cc.x), 0.0, 1.0);
+}
+
+// Camera read with spill suppression and low-light gain. The highlight shoulder
+// keeps 1.0 at 1.0 (slope = gain at black), so brightening the subject never clips.
+vec3 camera(vec2 uv) {
+  vec3 c = texture(u_camera, uv).rgb;
+  if (u_spill > 0.0) c = despill(c);
+  return c * u_fgGain / (1.0 + (u_fgGain - 1.0) * c);
+}
+
 void main() {
   float rawMask = texture(u_mask, v_texCoord).r;
-  vec3 I = texture(u_camera, v_texCoord).rgb;
+  vec3 I = camera(v_texCoord);
 
   // Edge-adaptive sharpening using camera gradient
-  vec3 dx = I - texture(u_camera, v_texCoord + vec2(u_texelSize.x, 0.0)).rgb;
-  vec3 dy = I - texture(u_camera, v_texCoord + vec2(0.0, u_texelSize.y)).rgb;
+  vec3 dx = I - camera(v_texCoord + vec2(u_texelSize.x, 0.0));
+  vec3 dy = I - camera(v_texCoord + vec2(0.0, u_texelSize.y));
   float edgeStrength = dot(dx, dx) + dot(dy, dy);
   float sharpness = smoothstep(0.001, 0.02, edgeStrength);
   float lo = mix(0.15, 0.35, sharpness);
@@ -301,11 +481,30 @@ void main() {
 
   // New background color
   vec4 bgTex = texture(u_background, bgUV);
-  float isColor = step(1.5, float(u_backgroundMode));
+  if (u_depthBlur > 0.5) {
+    // Depth-graded blur: light blur beside the subject → full blur far away
+    bgTex = mix(texture(u_backgroundNear, bgUV), bgTex, texture(u_depth, bgUV).r);
+  }
+  float isColor = u_backgroundMode == 2 ? 1.0 : 0.0;
+  bool transparent = u_backgroundMode == 3;
   vec3 newBg = mix(bgTex.rgb, u_backgroundColor, isColor);
+  if (u_transition < 1.0) {
+    newBg = mix(texture(u_prevBackground, bgUV).rgb, newBg, u_transition);
+  }
+  // Behind-subject overlays sit on the background, so the person occludes them
+  if (u_hasBehindOverlay > 0.5) {
+    vec4 overlay = texture(u_behindOverlay, bgUV);
+    newBg = newBg * (1.0 - overlay.a) + overlay.rgb;
+  }
+  // Drop shadow: the offset, blurred silhouette darkens the new background
+  if (u_shadowOpacity > 0.0) {
+    newBg *= 1.0 - u_shadowOpacity * texture(u_shadow, v_texCoord - u_shadowOffset).r;
+  }
 
-  // Default output: standard alpha composite
-  vec3 result = mix(newBg, I, mask);
+  // Default output: standard alpha composite.
+  // Transparent: color is the camera, the mask goes to alpha.
+  vec3 result = transparent ? I : mix(newBg, I, mask);
+  float outAlpha = transparent ? mask : 1.0;
 
   // Foreground recovery in transition zone:
   // Camera pixels here are contaminated: I = F_true * alpha + B_old * (1-alpha)
@@ -324,7 +523,7 @@ void main() {
     for (int i = 0; i < 13; i++) {
       vec2 sc = v_texCoord + mOff[i] * sampleStep;
       float m = texture(u_mask, sc).r;
-      vec3 col = texture(u_camera, sc).rgb;
+      vec3 col = camera(sc);
       float dist = length(mOff[i]);
       float proximity = 1.0 / (1.0 + dist);
       float fw = smoothstep(0.6, 0.9, m) * proximity;
@@ -358,13 +557,19 @@ void main() {
       float blendFactor = smoothstep(0.02, 0.15, rawMask) * (1.0 - smoothstep(0.9, 1.0, rawMask)) * colorSeparation;
       float alpha = mix(mask, mattedAlpha, blendFactor * 0.8);
 
-      // Foreground recovery: subtract old bg contribution, add new bg
-      vec3 recovered = I + (newBg - B) * (1.0 - alpha);
+      // Foreground recovery: subtract old bg contribution, add new bg.
+      // Transparent: "new bg" is the local foreground color, which leaves
+      // the decontaminated F — edges don't carry the room's color into alpha.
+      vec3 recovered = I + ((transparent ? F : newBg) - B) * (1.0 - alpha);
       result = mix(result, clamp(recovered, 0.0, 1.0), blendFactor);
+      if (transparent) outAlpha = mix(mask, alpha, blendFactor);
     }
   }
 
-  outColor = vec4(result, 1.0);
+  // Fade the whole effect in/out (toggling to/from 'none') against the raw
+  // camera — no despill or low-light gain, so 0 matches the passthrough frame
+  vec3 raw = texture(u_camera, v_texCoord).rgb;
+  outColor = vec4(mix(raw, result, u_effect), mix(1.0, outAlpha, u_effect));
 }`;
 
 /**
@@ -400,6 +605,212 @@ void main() {
   outColor = color;
 }`;
 
+/**
+ * Mask-Aware Blur Shaders (normalized convolution)
+ *
+ * Blurring the raw camera frame smears the subject's colors into the
+ * background, leaving a dark/skin-colored halo around the silhouette.
+ * Instead the blur source is premultiplied by a background weight
+ * (1 - mask), blurred as usual (alpha carries the weight), then divided
+ * by the blurred weight — near edges only background colors contribute.
+ */
+export const BLUR_WEIGHT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_camera;        // Camera frame
+uniform sampler2D u_mask;          // Final processed mask
+
+void main() {
+  // Exclude edge pixels too — they are already mixed with subject color
+  float w = 1.0 - smoothstep(0.1, 0.4, texture(u_mask, v_texCoord).r);
+  outColor = vec4(texture(u_camera, v_texCoord).rgb * w, w);
+}`;
+
+export const BLUR_NORMALIZE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;        // Blurred premultiplied source
+
+void main() {
+  vec4 acc = texture(u_source, v_texCoord);
+  // Deep inside the subject no background reaches — hidden by the composite anyway
+  outColor = vec4(acc.rgb / max(acc.a, 0.0001), 1.0);
+}`;
+
+/**
+ * Bokeh Lens Blur Shader (disc kernel with highlight bloom)
+ *
+ * Gathers samples on a golden-angle spiral covering a disc, so defocused
+ * detail keeps the hard-edged circular footprint of a real aperture instead
+ * of the soft falloff of a Gaussian. Bright samples get extra weight, which
+ * makes point lights bloom into bokeh circles. Run twice: a wide pass with
+ * highlight gain, then a narrow pass without it to hide the spiral pattern.
+ */
+export const BOKEH_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;
+uniform vec2 u_texelSize;          // 1.0 / source dimensions
+uniform float u_radius;            // Disc radius in texels
+uniform float u_highlightThreshold; // Luma above which samples start to bloom
+uniform float u_highlightGain;     // Extra weight for highlights (0 = plain disc)
+
+const int SAMPLES = 64;
+const float GOLDEN_ANGLE = 2.39996323;
+
+void main() {
+  vec3 sum = vec3(0.0);
+  float weightSum = 0.0;
+
+  for (int i = 0; i < SAMPLES; i++) {
+    // sqrt spacing → uniform density over the disc area
+    float r = sqrt((float(i) + 0.5) / float(SAMPLES));
+    float theta = float(i) * GOLDEN_ANGLE;
+    vec2 offset = vec2(cos(theta), sin(theta)) * r * u_radius * u_texelSize;
+
+    // Source may be premultiplied by background weight (mask-aware blur)
+    vec4 col = texture(u_source, v_texCoord + offset);
+    float luma = dot(col.rgb / max(col.a, 0.0001), vec3(0.299, 0.587, 0.114));
+    float highlight = smoothstep(u_highlightThreshold, 1.0, luma);
+    float w = 1.0 + u_highlightGain * highlight * highlight;
+
+    sum += col.rgb * w;
+    weightSum += col.a * w;
+  }
+
+  outColor = vec4(sum / max(weightSum, 0.0001), 1.0);
+}`;
+
+/**
+ * Distance Transform Shaders (jump flooding)
+ *
+ * Computes each pixel's distance to the nearest subject pixel at mask
+ * resolution, used to grade background blur by depth.
+ * 1. Seed: subject pixels store their own UV, others are empty (a = 0)
+ * 2. Jump flood: log2(size) passes with halving step, each keeping the
+ *    nearest seed among 9 neighbors
+ * 3. Depth: distance → 0-1 blur amount via range and falloff curve
+ */
+export const DISTANCE_SEED_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_mask;          // Final processed mask
+
+void main() {
+  float subject = step(0.5, texture(u_mask, v_texCoord).r);
+  outColor = vec4(v_texCoord * subject, 0.0, subject);
+}`;
+
+export const JUMP_FLOOD_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_seeds;         // Nearest-seed UVs from the previous pass
+uniform vec2 u_step;               // Jump distance in UV units
+uniform float u_aspect;            // Frame width / height (distances in height units)
+
+void main() {
+  vec4 best = vec4(0.0);
+  float bestDist = 1e6;
+
+  for (int y = -1; y <= 1; y++) {
+    for (int x = -1; x <= 1; x++) {
+      vec4 seed = texture(u_seeds, v_texCoord + vec2(float(x), float(y)) * u_step);
+      if (seed.a < 0.5) continue;
+      vec2 d = (seed.xy - v_texCoord) * vec2(u_aspect, 1.0);
+      float dist = dot(d, d);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = seed;
+      }
+    }
+  }
+
+  outColor = best;
+}`;
+
+export const DEPTH_FROM_DISTANCE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_seeds;         // Jump flood result
+uniform float u_aspect;            // Frame width / height
+uniform float u_range;             // Distance (frame heights) at which blur is full
+uniform float u_falloff;           // Curve exponent: >1 keeps nearby background sharper
+
+void main() {
+  vec4 seed = texture(u_seeds, v_texCoord);
+  // No subject in frame → everything is far background
+  float dist = seed.a > 0.5 ? length((seed.xy - v_texCoord) * vec2(u_aspect, 1.0)) : u_range;
+  float depth = pow(clamp(dist / max(u_range, 0.001), 0.0, 1.0), u_falloff);
+  outColor = vec4(depth, 0.0, 0.0, 1.0);
+}`;
+
+/**
+ * Stylized Background Shader
+ *
+ * Transforms the real background instead of replacing it — the room stays
+ * recognizable as a room, but details become unreadable. Output feeds the
+ * composite like any other background texture.
+ * Styles: 0 = grayscale, 1 = dim, 2 = pixelate, 3 = posterize
+ */
+export const STYLIZE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;        // Camera frame
+uniform int u_style;               // 0=grayscale, 1=dim, 2=pixelate, 3=posterize
+uniform float u_dimAmount;         // Brightness reduction for dim (0-1)
+uniform vec2 u_blockSize;          // Pixelate block size in UV units
+uniform float u_levels;            // Posterize levels per channel
+
+void main() {
+  vec3 col;
+
+  if (u_style == 2) {
+    // Average a 4x4 grid inside the block — a single tap would shimmer with sensor noise
+    vec2 origin = floor(v_texCoord / u_blockSize) * u_blockSize;
+    col = vec3(0.0);
+    for (int y = 0; y < 4; y++) {
+      for (int x = 0; x < 4; x++) {
+        col += texture(u_source, origin + (vec2(float(x), float(y)) + 0.5) * 0.25 * u_blockSize).rgb;
+      }
+    }
+    col /= 16.0;
+  } else {
+    col = texture(u_source, v_texCoord).rgb;
+  }
+
+  if (u_style == 0) {
+    col = vec3(dot(col, vec3(0.299, 0.587, 0.114)));
+  } else if (u_style == 1) {
+    col *= 1.0 - u_dimAmount;
+  } else if (u_style == 3) {
+    float steps = max(u_levels - 1.0, 1.0);
+    col = floor(col * steps + 0.5) / steps;
+  }
+
+  outColor = vec4(col, 1.0);
+}`;
+
 /**
  * Light Wrapping Shader (optional, advanced)
  *
@@ -426,9 +837,9 @@ void main() {
   float edgeMask = smoothstep(0.25, 0.45, mask) * (1.0 - smoothstep(0.55, 0.75, mask));
 
   // Blend background light into edge pixels
-  vec4 wrapped = mix(comp, bg, edgeMask * u_wrapStrength);
+  vec3 wrapped = mix(comp.rgb, bg.rgb, edgeMask * u_wrapStrength);
 
-  outColor = wrapped;
+  outColor = vec4(wrapped, comp.a);
 }`;
 
 /**
@@ -438,8 +849,9 @@ void main() {
  * color temperature and brightness to the foreground. This prevents the common
  * problem where a warm-lit person looks "pasted onto" a cool-toned background.
  *
- * Computes per-channel gain/bias from foreground edge pixels and applies
- * a subtle correction to the background image.
+ * Per-channel gain comes from the subject and background mean colors
+ * (COLOR_STATS_SHADER reduction, smoothed over time on the CPU) and is
+ * applied as a subtle correction to the background image.
  */
 export const COLOR_MATCH_SHADER = `#version 300 es
 precision highp float;
@@ -450,8 +862,8 @@ out vec4 outColor;
 uniform sampler2D u_background;       // Original background replacement image
 uniform sampler2D u_camera;           // Camera frame (for color reference)
 uniform sampler2D u_mask;             // Segmentation mask
-uniform vec3 u_fgMeanColor;           // Mean color of foreground edge band (computed on CPU)
-uniform vec3 u_bgMeanColor;           // Mean color of background image (computed on CPU)
+uniform vec3 u_fgMeanColor;           // Mean color of the subject (GPU reduction, smoothed)
+uniform vec3 u_bgMeanColor;           // Mean color of background image (GPU reduction, smoothed)
 uniform float u_matchStrength;        // How much to match (0.0-0.5, subtle)
 
 void main() {
@@ -470,6 +882,120 @@ void main() {
   outColor = vec4(matched, bg.a);
 }`;
 
+/**
+ * Color Statistics Reduction Shader
+ *
+ * Renders into a 2x1 target: pixel 0 = mask-weighted mean camera color
+ * (the subject — drives color match and low-light gain), pixel 1 = mean
+ * background color. Each fragment reduces a
+ * 24x24 sample grid, so the result is two texels that can be read back
+ * asynchronously (PBO + fence) without stalling the pipeline.
+ * Alpha carries the total weight (subject coverage for pixel 0).
+ */
+export const COLOR_STATS_SHADER = `#version 300 es
+precision highp float;
+
+out vec4 outColor;
+
+uniform sampler2D u_camera;        // Camera frame
+uniform sampler2D u_mask;          // Final processed mask
+uniform sampler2D u_background;    // Fitted background
+
+const float GRID = 24.0;
+
+void main() {
+  bool subject = gl_FragCoord.x < 1.0;
+  vec3 sum = vec3(0.0);
+  float weight = 0.0;
+
+  for (int y = 0; y < 24; y++) {
+    for (int x = 0; x < 24; x++) {
+      vec2 uv = (vec2(float(x), float(y)) + 0.5) / GRID;
+      float w = subject ? texture(u_mask, uv).r : 1.0;
+      vec3 col = subject ? texture(u_camera, uv).rgb : texture(u_background, uv).rgb;
+      sum += col * w;
+      weight += w;
+    }
+  }
+
+  outColor = vec4(sum / max(weight, 0.0001), weight / (GRID * GRID));
+}`;
+
+/**
+ * Matte Output Shader
+ *
+ * Writes the final full-res mask (post bilateral/feather/erosion) as an
+ * opaque grayscale image for the matte output track.
+ */
+export const MATTE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_mask;          // Final processed mask
+
+void main() {
+  outColor = vec4(vec3(texture(u_mask, v_texCoord).r), 1.0);
+}`;
+
+/**
+ * Overlay Shader
+ *
+ * Draws one overlay image into the viewport (set to the overlay's rect) as
+ * premultiplied color, for blending with ONE / ONE_MINUS_SRC_ALPHA. Also
+ * blits an already-premultiplied overlay layer onto the output.
+ */
+export const OVERLAY_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;        // Overlay image or layer
+uniform float u_opacity;           // Overall opacity multiplier
+uniform float u_flipY;             // 1.0 = source was uploaded top-down (ImageBitmap)
+uniform float u_premultiplied;     // 1.0 = source is already premultiplied
+uniform sampler2D u_destination;   // Output under the layer, straight alpha (u_over)
+uniform float u_over;              // 1.0 = composite over u_destination here, straight-alpha result
+
+void main() {
+  vec2 uv = vec2(v_texCoord.x, mix(v_texCoord.y, 1.0 - v_texCoord.y, u_flipY));
+  vec4 color = texture(u_source, uv);
+  color.rgb *= mix(color.a, 1.0, u_premultiplied);
+  color *= u_opacity;
+
+  if (u_over > 0.5) {
+    // Porter-Duff over a straight-alpha destination, un-premultiplied for the canvas
+    vec4 dst = texture(u_destination, v_texCoord);
+    float a = color.a + dst.a * (1.0 - color.a);
+    vec3 rgb = color.rgb + dst.rgb * dst.a * (1.0 - color.a);
+    outColor = vec4(a > 0.0 ? rgb / a : vec3(0.0), a);
+  } else {
+    outColor = color;
+  }
+}`;
+
+/**
+ * Background Snapshot Shader
+ *
+ * Freezes the background of the last frame (texture or solid color) into a
+ * full-res texture, so it can be crossfaded out after the mode or image changes.
+ */
+export const BACKGROUND_SNAPSHOT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_background;    // Background used by the last frame
+uniform vec3 u_color;              // Solid color (color mode)
+uniform float u_useColor;          // 1.0 = last frame used the solid color
+
+void main() {
+  outColor = vec4(mix(texture(u_background, v_texCoord).rgb, u_color, u_useColor), 1.0);
+}`;
+
 /**
  * Mask Shift Shader (motion compensation)
  *
@@ -512,3 +1038,34 @@ void main() {
   vec2 uv = u_cropOffset + v_texCoord * u_cropSize;
   outColor = texture(u_source, uv);
 }`;
+
+/**
+ * Background Fit Shader (image/video backgrounds)
+ *
+ * Maps the background source onto the frame so its aspect ratio is preserved.
+ * Scale/offset are computed on the CPU per fit mode (cover, contain, fill, tile)
+ * and focal point; contain letterboxes with the fill color. Rendered into a
+ * frame-sized FBO only when the source or fit settings change.
+ */
+export const BACKGROUND_FIT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 outColor;
+
+uniform sampler2D u_source;
+uniform vec2 u_uvScale;       // Frame UV → source UV scale
+uniform vec2 u_uvOffset;      // Frame UV → source UV offset
+uniform float u_tile;         // 1.0 = repeat source (tile mode)
+uniform vec3 u_fillColor;     // Letterbox color (contain mode)
+
+void main() {
+  vec2 uv = u_uvOffset + v_texCoord * u_uvScale;
+  uv = mix(uv, fract(uv), u_tile);
+
+  // Outside the source rect (contain mode only) → letterbox
+  vec2 inside = step(vec2(0.0), uv) * step(uv, vec2(1.0));
+  vec3 color = texture(u_source, clamp(uv, 0.0, 1.0)).rgb;
+
+  outColor = vec4(mix(u_fillColor, color, inside.x * inside.y), 1.0);
+}`;